@@ -0,0 +1,25 @@
+/**
+ * Write the package name and version into src/packageInfo.ts
+ * Runs before every build and on `npm version`, so the SDK reports its own identity without
+ * reading package.json at runtime.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.resolve(__dirname, '..');
+const pkg = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf8'));
+
+const source = `// Generated from package.json by scripts/generate-package-info.js - do not edit
+
+/** Published package name */
+export const PACKAGE_NAME = ${JSON.stringify(pkg.name).replace(/"/g, "'")};
+
+/** Published package version */
+export const PACKAGE_VERSION = ${JSON.stringify(pkg.version).replace(/"/g, "'")};
+`;
+
+const target = path.join(root, 'src', 'packageInfo.ts');
+if (!fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== source) {
+  fs.writeFileSync(target, source);
+}
@@ -0,0 +1,96 @@
+/**
+ * Fake Market Service Client
+ * A MarketServiceClient backed by an in-memory service, for unit tests and stories
+ *
+ * The fake runs the real client pipeline (middleware, retries, caching, error classes,
+ * date hydration) against InMemoryMarketService instead of HTTP, so code under test
+ * behaves exactly as it would against the service.
+ */
+
+import { MarketServiceClient } from './MarketServiceClient';
+import { InMemoryMarketService } from './fakeService';
+import {
+  FakeErrorOptions,
+  FakeMarketServiceClientOptions,
+  FakeMarketServiceSeed,
+  FakeServiceCall,
+} from './types';
+
+const FAKE_API_KEY = 'mk_test_fake';
+const FAKE_BASE_URL = 'http://market-service.fake';
+
+export class FakeMarketServiceClient extends MarketServiceClient {
+  /** The in-memory service answering this client's requests */
+  public readonly service: InMemoryMarketService;
+
+  constructor(options: FakeMarketServiceClientOptions = {}) {
+    const { seed, latencyMs, ...config } = options;
+    const service = new InMemoryMarketService(seed, latencyMs);
+
+    super({
+      baseURL: FAKE_BASE_URL,
+      ...config,
+      apiKey: config.apiKey || FAKE_API_KEY,
+      transport: service.handle,
+    });
+
+    this.service = service;
+  }
+
+  /**
+   * Add markets, cost adders, counties or permit data
+   * Cached responses are dropped so the new data is visible immediately
+   */
+  seed(data: FakeMarketServiceSeed): this {
+    this.service.seed(data);
+    void this.invalidateCache();
+    return this;
+  }
+
+  /**
+   * Make upcoming calls fail with a service error code, e.g. `RATE_LIMITED` or `EXPIRED_JWT`
+   */
+  failNext(code: string, options?: FakeErrorOptions): this {
+    this.service.failNext(code, options);
+    return this;
+  }
+
+  /**
+   * Calls received by the fake service, oldest first
+   */
+  get calls(): FakeServiceCall[] {
+    return this.service.calls;
+  }
+
+  /**
+   * Remove all data, injected errors, recorded calls and cached responses
+   */
+  reset(): void {
+    this.service.reset();
+    void this.invalidateCache();
+  }
+}
+
+/**
+ * Create a client backed by an in-memory fake service
+ *
+ * @example
+ * const client = createTestClient({
+ *   seed: {
+ *     markets: [{ id: 'denver', name: 'Denver Metro', brand_id: 1, market_type: 'metro',
+ *       serviceable_counties: [{ county_fips: '08031', county_name: 'Denver', state_code: 'CO' }] }],
+ *     costAdders: [{ market_id: 'denver', adder_name: 'Permit', adder_type: 'fixed', cost_value: 350 }],
+ *     zipCodes: { '80202': '08031' },
+ *   },
+ * });
+ *
+ * const result = await client.lookupMarket({ brand_id: 1, zip: '80202' });
+ * // result.matched_by === 'zip'
+ *
+ * client.failNext('RATE_LIMITED', { retryAfter: 1 });
+ */
+export function createTestClient(options?: FakeMarketServiceClientOptions): FakeMarketServiceClient {
+  return new FakeMarketServiceClient(options);
+}
+
+export default FakeMarketServiceClient;
@@ -27,6 +27,9 @@ import {
   VersionChangeCallback,
   CountyData,
   CountyDataFilters,
+  CountyBatchOptions,
+  CountyBatchResult,
+  Page,
   CountyStats,
   PermitHistory,
   PermitHistorySummary,
@@ -34,28 +37,73 @@ import {
   TopCountyByPermits,
   FeatureAccessResult,
   MarketServiceError,
+  MarketServiceErrorContext,
+  DateField,
+  AuthError,
+  NotFoundError,
+  ValidationError,
+  ValidationFieldError,
+  RateLimitError,
+  PremiumFeatureError,
+  NetworkError,
+  TimeoutError,
+  ResponseValidationError,
+  RequestOptions,
+  CreateOptions,
+  TenantScope,
+  SDKUnsupportedError,
+  RateLimiterStats,
+  KeyRotatedEvent,
+  CostAdderPricing,
+  PricingInput,
+  PricingOptions,
+  PriceQuoteRequest,
+  QuotePrice,
+  ActiveCostAdderOptions,
+  CostAdderPeriod,
+  CostAdderTimelineRange,
+  CostAdderValidationOptions,
+  CostAdderValidationReport,
+  CostAdderWriteOptions,
+  CostAdderConflictError,
+  Proposal,
+  ProposalOptions,
+  CircuitState,
+  CircuitOpenError,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  Transport,
+  TransportRequest,
+  TransportResponse,
   ServiceEnvironment,
-  SERVICE_URLS,
+  EnvironmentName,
 } from './types';
+import {
+  resolveRetryPolicy,
+  shouldRetry,
+  computeRetryDelay,
+  parseRetryAfter,
+  sleep,
+  throwIfAborted,
+} from './retry';
+import { ResponseCache } from './cache';
+import { RequestCoalescer } from './coalesce';
+import { RateLimiter } from './rateLimiter';
+import { CircuitBreaker } from './circuitBreaker';
+import { validateResponseData } from './schemas';
+import { hydrateDates, serializeRequestDates } from './dates';
+import { DEFAULT_PAGE_SIZE, paginate, toPage } from './pagination';
+import { mapSettled } from './batch';
+import { priceCostAdders } from './pricing';
+import { buildProposal } from './proposal';
+import { buildCostAdderTimeline, isCostAdderApplicable, toAsOf, validateCostAdders } from './costAdders';
+import { buildRequestKey, credentialDigest, fingerprint, generateIdempotencyKey } from './requestKey';
+import { Recorder } from './recorder';
+import { EndpointPool, isProductionEnvironment, resolveEndpoints } from './endpoints';
+import { TenantClient } from './TenantClient';
+import { SDK_NAME, SDK_VERSION, compareVersions } from './version';
 
-// SDK version - read from package.json at build time
-const SDK_VERSION = '1.1.0';
-const SDK_NAME = '@dripedge/market-service-sdk';
-
-/**
- * Resolve the base URL from config
- * Priority: baseURL > environment > default (development)
- */
-function resolveBaseURL(config: MarketServiceConfig): string {
-  // Custom baseURL takes priority
-  if (config.baseURL) {
-    return config.baseURL;
-  }
-
-  // Use environment-based URL
-  const env = config.environment || 'development';
-  return SERVICE_URLS[env];
-}
 
 /**
  * Detect environment from API key prefix
@@ -70,17 +118,18 @@ function detectEnvironmentFromKey(apiKey: string): ServiceEnvironment {
 /**
  * Warn if API key doesn't match environment
  */
-function validateKeyEnvironment(apiKey: string, environment: ServiceEnvironment): void {
+function validateKeyEnvironment(apiKey: string, environment: EnvironmentName): void {
   const keyEnv = detectEnvironmentFromKey(apiKey);
+  const production = isProductionEnvironment(environment);
 
-  if (environment === 'production' && keyEnv !== 'production') {
+  if (production && keyEnv !== 'production') {
     console.warn(
       '[MarketServiceSDK] Warning: Using test API key (mk_test_) in production environment. ' +
       'Use a production key (mk_live_) for production.'
     );
   }
 
-  if (environment !== 'production' && keyEnv === 'production') {
+  if (!production && keyEnv === 'production') {
     console.warn(
       '[MarketServiceSDK] Warning: Using production API key (mk_live_) in non-production environment. ' +
       'Consider using a test key (mk_test_) for development/staging.'
@@ -88,21 +137,138 @@ function validateKeyEnvironment(apiKey: string, environment: ServiceEnvironment)
   }
 }
 
-export class MarketServiceClient {
+/**
+ * Stand-in ID for a cost adder that has not been created yet (pre-flight checks)
+ */
+const PREFLIGHT_ADDER_ID = '(new)';
+
+/**
+ * Service error codes that mean a premium feature is not included in the plan
+ */
+const PREMIUM_FEATURE_CODES = ['FEATURE_NOT_AVAILABLE', 'PREMIUM_REQUIRED', 'UPGRADE_REQUIRED'];
+
+/**
+ * Normalize the service's validation details into a list of field errors
+ */
+function toFieldErrors(details: ApiResponse<unknown>['details']): ValidationFieldError[] {
+  if (!details) return [];
+  if (Array.isArray(details)) {
+    return details.filter((detail) => detail && typeof detail.field === 'string');
+  }
+  return Object.entries(details).map(([field, message]) => ({ field, message: String(message) }));
+}
+
+/**
+ * Build the typed error for an error response
+ * The service's `errorCode` is kept whenever it sends one; the status only picks the fallback
+ */
+function createResponseError(
+  statusCode: number,
+  data: ApiResponse<unknown>,
+  retryAfter: number | undefined,
+  context: MarketServiceErrorContext
+): MarketServiceError {
+  const message = data.error || data.message || 'API request failed';
+  const serviceCode = data.errorCode;
+
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return new ValidationError(
+        message,
+        serviceCode || 'VALIDATION_ERROR',
+        statusCode,
+        toFieldErrors(data.details),
+        context
+      );
+    case 401:
+      return new AuthError(message, serviceCode || 'INVALID_API_KEY', statusCode, context);
+    case 403:
+      if (data.upgrade_message || (serviceCode && PREMIUM_FEATURE_CODES.includes(serviceCode))) {
+        return new PremiumFeatureError(
+          message,
+          serviceCode || 'FEATURE_NOT_AVAILABLE',
+          data.upgrade_message,
+          context
+        );
+      }
+      return new AuthError(message, serviceCode || 'INSUFFICIENT_PERMISSIONS', statusCode, context);
+    case 404:
+      return new NotFoundError(message, serviceCode || 'NOT_FOUND', context);
+    case 429:
+      return new RateLimitError(message, retryAfter, context);
+    default:
+      return new MarketServiceError(message, serviceCode || 'API_ERROR', statusCode, retryAfter, context);
+  }
+}
+
+/**
+ * Flatten response headers into a plain lower-cased record
+ */
+function toPlainHeaders(headers: unknown): Record<string, string> {
+  const plain: Record<string, string> = {};
+  if (headers && typeof headers === 'object') {
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && value !== null) {
+        plain[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+  }
+  return plain;
+}
+
+/**
+ * Internal description of a single API call
+ */
+interface RequestDescriptor {
+  /** Public method name, used to look up per-method policies */
+  operation: string;
+  method: 'get' | 'post' | 'put' | 'delete';
+  url: string;
+  params?: object;
+  data?: unknown;
+  /** Safe to repeat - defaults to true for GET, set explicitly for read-only POSTs */
+  idempotent?: boolean;
+  /** Sent as `Idempotency-Key`; makes a create safe to retry without being shared or cached */
+  idempotencyKey?: string;
+  /** Per-call options from the public method */
+  options?: RequestOptions;
+}
+
+/**
+ * Extra config required when the client is typed with hydrated dates
+ */
+type DateHydrationConfig<D extends DateField> = D extends Date ? { hydrateDates: true } : {};
+
+export class MarketServiceClient<D extends DateField = DateField> {
   private client: AxiosInstance;
   private config: MarketServiceConfig;
   private versionCallbacks: VersionChangeCallback[] = [];
+  private cache: ResponseCache | null;
+  private coalescer: RequestCoalescer | null;
+  private rateLimiter: RateLimiter | null;
+  private circuitBreaker: CircuitBreaker | null;
+  private middleware: Middleware[];
+  private transport: Transport;
+  private credentialRefreshes = new Map<'jwtToken' | 'apiKey', Promise<string | undefined>>();
+  private jwtProviderCalled = false;
+  private nextApiKey: string | undefined;
+  /** A key switch waiting for the service to accept the promoted key */
+  private pendingRotation: { from: string; to: string; reason: KeyRotatedEvent['reason'] } | null = null;
+  private endpoints: EndpointPool;
 
   /** Current SDK version status from the service */
   public versionStatus: SDKVersionStatus | null = null;
 
   /** The resolved environment this client is connected to */
-  public readonly environment: ServiceEnvironment;
+  public readonly environment: EnvironmentName;
 
-  /** The resolved base URL this client is connected to */
-  public readonly baseURL: string;
+  /** The endpoint requests are currently sent to; changes on failover and recovery */
+  get baseURL(): string {
+    return this.endpoints.current;
+  }
 
-  constructor(config: MarketServiceConfig) {
+  constructor(config: MarketServiceConfig & DateHydrationConfig<D>) {
     // Validate required API key
     if (!config.apiKey) {
       throw new MarketServiceError(
@@ -111,73 +277,95 @@ export class MarketServiceClient {
       );
     }
 
-    this.config = config;
+    // Own copy: credential setters and key rotation must not leak into other clients built from the same object
+    this.config = { ...config };
+    this.nextApiKey = config.nextApiKey;
 
     // Resolve environment and URL
     this.environment = config.environment || detectEnvironmentFromKey(config.apiKey);
-    this.baseURL = resolveBaseURL(config);
+    this.endpoints = new EndpointPool(
+      resolveEndpoints(config),
+      config.failover
+    );
 
     // Validate API key matches environment
     validateKeyEnvironment(config.apiKey, this.environment);
 
+    // Headers are built per request (see buildHeaders) so credential changes and middleware apply.
+    // Error statuses are turned into typed errors for every transport in sendThroughTransport.
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: config.timeout || 10000,
-      headers: {
-        'Content-Type': 'application/json',
-        // SDK identification headers
-        'X-SDK-Version': SDK_VERSION,
-        'X-SDK-Name': SDK_NAME,
-        // Environment header (for service-side logging/routing)
-        'X-Environment': this.environment,
-        // App-to-app authentication (required)
-        'X-API-Key': config.apiKey,
-        // Client app identification (optional, for analytics)
-        ...(config.clientAppName && { 'X-Client-App': config.clientAppName }),
-        // User-level authentication (optional)
-        ...(config.jwtToken && { 'Authorization': `Bearer ${config.jwtToken}` }),
-      },
+      validateStatus: () => true,
     });
 
+    const transport: Transport = config.transport || ((request) => this.sendOverHttp(request));
+    this.transport = config.recording ? new Recorder(config.recording).wrap(transport) : transport;
+
+    this.cache = config.cache
+      ? new ResponseCache(config.cache === true ? {} : config.cache)
+      : null;
+    this.coalescer = config.dedupe === false ? null : new RequestCoalescer();
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : null;
+    this.circuitBreaker = config.circuitBreaker
+      ? new CircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker)
+      : null;
+    this.middleware = [...(config.middleware || [])];
+
     // Register version change callback if provided
     if (config.onVersionChange) {
       this.versionCallbacks.push(config.onVersionChange);
     }
 
-    // Response interceptor for version checking and error handling
+    // Response interceptor for requests that got no response
     this.client.interceptors.response.use(
-      (response: AxiosResponse) => {
-        this.parseVersionHeaders(response);
-        return response;
-      },
-      (error: AxiosError) => {
-        // Still parse version headers on error responses
-        if (error.response) {
-          this.parseVersionHeaders(error.response);
-        }
-        return this.handleError(error);
-      }
+      (response: AxiosResponse) => response,
+      (error: AxiosError) => this.handleError(error)
     );
   }
 
+  /**
+   * Headers sent with every request
+   */
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      // SDK identification headers
+      'X-SDK-Version': SDK_VERSION,
+      'X-SDK-Name': SDK_NAME,
+      // Environment header (for service-side logging/routing)
+      'X-Environment': this.environment,
+      // App-to-app authentication (required)
+      'X-API-Key': this.config.apiKey,
+      // Client app identification (optional, for analytics)
+      ...(this.config.clientAppName && { 'X-Client-App': this.config.clientAppName }),
+      // User-level authentication (optional)
+      ...(this.config.jwtToken && { 'Authorization': `Bearer ${this.config.jwtToken}` }),
+    };
+  }
+
   /**
    * Parse SDK version status from response headers
    */
-  private parseVersionHeaders(response: AxiosResponse): void {
-    const status = response.headers['x-sdk-status'];
-    const latest = response.headers['x-sdk-latest'];
-    const minimum = response.headers['x-sdk-minimum'];
-    const message = response.headers['x-sdk-message'];
+  private parseVersionHeaders(headers: Record<string, string>): void {
+    const status = headers['x-sdk-status'];
+    const latest = headers['x-sdk-latest'];
+    const minimum = headers['x-sdk-minimum'];
+    const message = headers['x-sdk-message'];
 
     if (status || latest || minimum) {
+      // Without an explicit status, a version below the minimum is unsupported
+      const belowMinimum = minimum ? compareVersions(SDK_VERSION, minimum) < 0 : false;
+      const resolved = (status as SDKVersionStatus['status']) || (belowMinimum ? 'unsupported' : 'unknown');
+
       const newStatus: SDKVersionStatus = {
         current: SDK_VERSION,
         latest: latest || SDK_VERSION,
         minimum: minimum || '1.0.0',
-        status: (status as SDKVersionStatus['status']) || 'unknown',
+        status: resolved,
         message: message || undefined,
-        updateRequired: status === 'unsupported' || status === 'deprecated',
-        updateAvailable: latest ? this.compareVersions(SDK_VERSION, latest) < 0 : false,
+        updateRequired: resolved === 'unsupported' || resolved === 'deprecated',
+        updateAvailable: latest ? compareVersions(SDK_VERSION, latest) < 0 : false,
         checkedAt: new Date(),
       };
 
@@ -190,62 +378,556 @@ export class MarketServiceClient {
 
       // Notify callbacks if status changed
       if (statusChanged) {
+        if (newStatus.updateRequired && (this.config.versionPolicy || 'warn') === 'warn') {
+          console.warn(
+            `[MarketServiceSDK] Warning: ${SDK_NAME}@${SDK_VERSION} is ${newStatus.status}; ` +
+            `update to ${newStatus.latest}.` + (newStatus.message ? ` ${newStatus.message}` : '')
+          );
+        }
         this.versionCallbacks.forEach(cb => cb(newStatus));
       }
     }
   }
 
   /**
-   * Compare semantic versions
-   * Returns: -1 if a < b, 0 if a === b, 1 if a > b
+   * Fail fast when `versionPolicy` blocks the SDK version the service last reported
    */
-  private compareVersions(a: string, b: string): number {
-    const partsA = a.split('.').map(Number);
-    const partsB = b.split('.').map(Number);
-
-    for (let i = 0; i < 3; i++) {
-      const partA = partsA[i] || 0;
-      const partB = partsB[i] || 0;
-      if (partA < partB) return -1;
-      if (partA > partB) return 1;
+  private assertVersionAllowed(): void {
+    const status = this.versionStatus;
+    const policy = this.config.versionPolicy || 'warn';
+    if (!status || policy === 'warn') return;
+
+    const blocked = status.status === 'unsupported' ||
+      (policy === 'block-on-deprecated' && status.status === 'deprecated');
+    if (blocked) {
+      throw new SDKUnsupportedError(
+        `${SDK_NAME}@${SDK_VERSION} is ${status.status} (minimum ${status.minimum}, latest ${status.latest}); ` +
+        'update the SDK to continue.' + (status.message ? ` ${status.message}` : ''),
+        status
+      );
     }
-    return 0;
   }
 
   /**
-   * Handle API errors and convert to MarketServiceError
+   * Handle failed HTTP requests (no response, timeout, cancellation) and convert to MarketServiceError
    */
   private handleError(error: AxiosError): never {
-    if (error.response) {
-      const data = error.response.data as ApiResponse<unknown>;
-      const statusCode = error.response.status;
-      const retryAfter = error.response.headers['retry-after']
-        ? parseInt(error.response.headers['retry-after'] as string, 10)
-        : undefined;
-
-      // Determine error code
-      let code = data.errorCode || 'API_ERROR';
-      if (statusCode === 401) code = 'INVALID_API_KEY';
-      if (statusCode === 403) code = 'INSUFFICIENT_PERMISSIONS';
-      if (statusCode === 429) code = 'RATE_LIMITED';
+    const context: MarketServiceErrorContext = {
+      method: error.config?.method?.toUpperCase(),
+      path: error.config?.url,
+    };
 
-      throw new MarketServiceError(
-        data.error || data.message || 'API request failed',
-        code,
-        statusCode,
-        retryAfter
+    if (axios.isCancel(error)) {
+      throw new MarketServiceError('Request was aborted', 'ABORTED', undefined, undefined, context);
+    } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      throw new TimeoutError(
+        `Market Service did not respond within ${error.config?.timeout}ms`,
+        error.config?.timeout,
+        context
       );
     } else if (error.request) {
-      throw new MarketServiceError(
+      throw new NetworkError(
         'No response from Market Service - check network connection',
-        'NETWORK_ERROR'
+        'NETWORK_ERROR',
+        context
       );
     } else {
       throw new MarketServiceError(
         error.message || 'Unknown error',
-        'UNKNOWN_ERROR'
+        'UNKNOWN_ERROR',
+        undefined,
+        undefined,
+        context
+      );
+    }
+  }
+
+  /**
+   * Build the typed error for an error response
+   */
+  private responseError(
+    status: number,
+    body: unknown,
+    headers: Record<string, string>,
+    context: MarketServiceErrorContext
+  ): MarketServiceError {
+    const data = (body && typeof body === 'object' ? body : {}) as ApiResponse<unknown>;
+    const requestId = headers['x-request-id'];
+
+    return createResponseError(status, data, parseRetryAfter(headers['retry-after']), {
+      ...context,
+      responseBody: body,
+      requestId: requestId || data.requestId,
+    });
+  }
+
+  /**
+   * Whether a request is safe to repeat
+   */
+  private isIdempotent(descriptor: RequestDescriptor): boolean {
+    return descriptor.idempotent ?? descriptor.method === 'get';
+  }
+
+  /**
+   * Key identifying a request, including a digest of the credentials it is made with
+   */
+  private requestKey(descriptor: RequestDescriptor): string {
+    const identity = credentialDigest(this.config.apiKey, this.config.jwtToken);
+    return buildRequestKey(descriptor.method, descriptor.url, descriptor.params, descriptor.data, identity);
+  }
+
+  /**
+   * Execute a request
+   * Request dates are serialized consistently; response dates are hydrated when enabled
+   */
+  private async request<T>(descriptor: RequestDescriptor): Promise<T> {
+    this.assertVersionAllowed();
+    const body = await this.execute<T>({ ...descriptor, data: serializeRequestDates(descriptor.data) });
+    return this.config.hydrateDates ? hydrateDates(body) : body;
+  }
+
+  /**
+   * Idempotent reads are served from the response cache when enabled and coalesced with
+   * identical requests already in flight
+   */
+  private async execute<T>(descriptor: RequestDescriptor): Promise<T> {
+    if (!this.isIdempotent(descriptor)) {
+      return this.send<T>(descriptor);
+    }
+
+    // The key embeds the credentials, so a provider-supplied JWT has to be fetched first.
+    // Only wait when there is something to fetch: the key must reflect the credentials at call time.
+    if (!this.credentialsReady()) {
+      await this.ensureCredentials();
+    }
+    const key = this.requestKey(descriptor);
+    const ttl = this.cache?.ttlFor(descriptor.operation);
+
+    if (!this.cache || ttl === undefined) {
+      return this.sendShared<T>(key, descriptor);
+    }
+
+    throwIfAborted(descriptor.options?.signal);
+    try {
+      return await this.cache.read<T>(key, ttl, (background) =>
+        // Background revalidation outlives the caller, so it must not carry their signal
+        this.sendShared<T>(key, background
+          ? { ...descriptor, options: { ...descriptor.options, signal: undefined } }
+          : descriptor)
       );
+    } catch (error) {
+      // While the service is down, an expired answer beats no answer
+      if (error instanceof CircuitOpenError && this.circuitBreaker?.serveCachedWhenOpen) {
+        const entry = await this.cache.peek(key);
+        if (entry) return entry.value as T;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send an idempotent request, joining an identical one already in flight
+   */
+  private sendShared<T>(key: string, descriptor: RequestDescriptor): Promise<T> {
+    if (!this.coalescer) {
+      return this.send<T>(descriptor);
+    }
+
+    return this.coalescer.run(key, descriptor.options?.signal, (signal) =>
+      this.send<T>({ ...descriptor, options: { ...descriptor.options, signal } })
+    );
+  }
+
+  /**
+   * Send a request, retrying transient failures per the configured retry policy
+   * Aborting the caller's signal cancels both the in-flight request and any pending retry.
+   * A per-call `timeout` is a deadline for the whole call: each attempt gets what is left of it
+   * and no retry is started that could not finish in time.
+   */
+  private async send<T>(descriptor: RequestDescriptor): Promise<T> {
+    const policy = this.isIdempotent(descriptor) || descriptor.idempotencyKey
+      ? resolveRetryPolicy(this.config.retry, descriptor.operation)
+      : null;
+    const signal = descriptor.options?.signal;
+    const callTimeout = descriptor.options?.timeout;
+    const deadline = callTimeout === undefined ? undefined : Date.now() + callTimeout;
+    let attempt = 1;
+    let credentialsRefreshed = false;
+
+    await this.ensureCredentials();
+
+    for (;;) {
+      throwIfAborted(signal);
+      const remaining = deadline === undefined ? undefined : deadline - Date.now();
+      if (remaining !== undefined && remaining <= 0) {
+        throw new TimeoutError(`Market Service did not respond within ${callTimeout}ms`, callTimeout, {
+          method: descriptor.method.toUpperCase(),
+          path: descriptor.url,
+        });
+      }
+      const attemptDescriptor = remaining === undefined
+        ? descriptor
+        : { ...descriptor, options: { ...descriptor.options, timeout: remaining } };
+      const probe = this.circuitBreaker
+        ? this.circuitBreaker.admit({ method: descriptor.method.toUpperCase(), path: descriptor.url })
+        : false;
+      let release: (() => void) | undefined;
+      const credentialsUsed = { apiKey: this.config.apiKey, jwtToken: this.config.jwtToken };
+      try {
+        release = this.rateLimiter ? await this.rateLimiter.acquire(signal) : undefined;
+        const body = await this.dispatch<T>(attemptDescriptor, attempt);
+        this.validateResponse(descriptor, body);
+        this.circuitBreaker?.record(probe);
+        this.confirmKeyRotation(descriptor, credentialsUsed.apiKey);
+        return body;
+      } catch (error) {
+        this.circuitBreaker?.record(probe, error);
+        // Free the slot before any backoff so queued calls are not held up
+        release?.();
+        if (this.rateLimiter && error instanceof MarketServiceError && error.isRateLimitError()) {
+          this.rateLimiter.pause((error.retryAfter ?? 1) * 1000);
+        }
+        // Replay once with fresh credentials; this does not count as a retry attempt
+        if (!credentialsRefreshed && (await this.refreshCredentials(error, credentialsUsed))) {
+          credentialsRefreshed = true;
+          continue;
+        }
+        if (!policy || attempt >= policy.maxAttempts || !shouldRetry(error, policy)) {
+          throw error;
+        }
+        const delay = computeRetryDelay(attempt, error, policy);
+        if (delay === null || (deadline !== undefined && Date.now() + delay >= deadline)) {
+          throw error;
+        }
+        await sleep(delay, signal);
+        attempt++;
+      } finally {
+        release?.();
+      }
+    }
+  }
+
+  /**
+   * Check a response body against the SDK types when `validation` is enabled
+   */
+  private validateResponse(descriptor: RequestDescriptor, body: unknown): void {
+    const mode = this.config.validation;
+    if (!mode || !body || typeof body !== 'object') return;
+
+    const issues = validateResponseData(descriptor.operation, (body as ApiResponse<unknown>).data);
+    if (issues.length === 0) return;
+
+    const method = descriptor.method.toUpperCase();
+    this.config.onValidationIssue?.({ operation: descriptor.operation, method, path: descriptor.url, issues });
+
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path}: expected ${issue.expected}, received ${issue.received}`)
+      .join('; ');
+
+    if (mode === 'strict') {
+      throw new ResponseValidationError(
+        `Unexpected response from ${descriptor.operation}: ${summary}`,
+        issues,
+        { method, path: descriptor.url, responseBody: body }
+      );
+    }
+
+    if (!this.config.onValidationIssue) {
+      console.warn(
+        `[MarketServiceSDK] Warning: Unexpected response from ${descriptor.operation}: ${summary}`
+      );
+    }
+  }
+
+  /**
+   * Whether the JWT is settled: no provider call is in flight or still due
+   */
+  private credentialsReady(): boolean {
+    return (
+      !this.credentialRefreshes.has('jwtToken') &&
+      (this.jwtProviderCalled || !!this.config.jwtToken || !this.config.getJwtToken)
+    );
+  }
+
+  /**
+   * Fetch the initial JWT from the `getJwtToken` provider before the first request
+   */
+  private async ensureCredentials(): Promise<void> {
+    if (this.credentialsReady()) return;
+
+    const pending = this.credentialRefreshes.get('jwtToken');
+    if (pending) {
+      await pending;
+      return;
+    }
+    await this.fetchCredential('jwtToken');
+  }
+
+  /**
+   * Refresh credentials after an auth failure
+   * Returns true when the request should be replayed with the new credentials
+   */
+  private async refreshCredentials(
+    error: unknown,
+    used: { apiKey: string; jwtToken?: string }
+  ): Promise<boolean> {
+    if (!(error instanceof MarketServiceError)) return false;
+
+    let field: 'jwtToken' | 'apiKey';
+    if ((error.code === 'EXPIRED_JWT' || error.code === 'INVALID_JWT') && this.config.getJwtToken) {
+      field = 'jwtToken';
+    } else if (error.code === 'EXPIRED_API_KEY' || error.code === 'INVALID_API_KEY') {
+      field = 'apiKey';
+    } else {
+      return false;
+    }
+
+    // Another request already refreshed it while this one was in flight
+    if (this.config[field] !== used[field]) return true;
+
+    if (field === 'apiKey') {
+      if (this.nextApiKey) {
+        this.switchApiKey(error.code as KeyRotatedEvent['reason']);
+        return true;
+      }
+      if (!this.config.getApiKey) return false;
+    }
+
+    const fresh = await this.fetchCredential(field);
+    return fresh !== undefined && fresh !== used[field];
+  }
+
+  /**
+   * Swap the current and next API keys
+   * The old key is kept as the next key until the service accepts the new one, so a
+   * premature rotation can still fall back to it
+   */
+  private switchApiKey(reason: KeyRotatedEvent['reason']): void {
+    const from = this.config.apiKey;
+    const to = this.nextApiKey as string;
+    this.config.apiKey = to;
+    this.nextApiKey = from;
+    this.pendingRotation = { from, to, reason };
+  }
+
+  /**
+   * Promote the new key for good once a request made with it succeeds
+   */
+  private confirmKeyRotation(descriptor: RequestDescriptor, apiKey: string): void {
+    const rotation = this.pendingRotation;
+    if (!rotation || rotation.to !== apiKey) return;
+
+    this.pendingRotation = null;
+    if (this.nextApiKey === rotation.from) this.nextApiKey = undefined;
+    this.config.onKeyRotated?.({
+      previousKey: fingerprint(rotation.from),
+      currentKey: fingerprint(rotation.to),
+      reason: rotation.reason,
+      operation: descriptor.operation,
+    });
+  }
+
+  /**
+   * Call a credential provider, sharing one call between concurrent refreshes
+   */
+  private fetchCredential(field: 'jwtToken' | 'apiKey'): Promise<string | undefined> {
+    const pending = this.credentialRefreshes.get(field);
+    if (pending) return pending;
+
+    const provider = field === 'jwtToken' ? this.config.getJwtToken : this.config.getApiKey;
+    if (field === 'jwtToken') this.jwtProviderCalled = true;
+
+    const refresh = Promise.resolve()
+      .then(() => provider?.())
+      .then(
+        (value) => {
+          if (value && field === 'jwtToken') this.setJwtToken(value);
+          if (value && field === 'apiKey') this.setApiKey(value);
+          return value || undefined;
+        },
+        (cause) => {
+          throw new MarketServiceError(
+            `Credential provider failed: ${(cause as Error)?.message || cause}`,
+            'CREDENTIAL_REFRESH_FAILED'
+          );
+        }
+      )
+      .finally(() => this.credentialRefreshes.delete(field));
+
+    this.credentialRefreshes.set(field, refresh);
+    return refresh;
+  }
+
+  /**
+   * Send a single HTTP attempt through the middleware pipeline
+   * onRequest hooks run in registration order; onResponse and onError hooks run in reverse
+   */
+  private async dispatch<T>(descriptor: RequestDescriptor, attempt: number): Promise<T> {
+    this.endpoints.checkPrimary((endpoint) => this.probeEndpoint(endpoint));
+
+    let request: MiddlewareRequest = {
+      operation: descriptor.operation,
+      method: descriptor.method.toUpperCase() as MiddlewareRequest['method'],
+      baseURL: this.baseURL,
+      path: descriptor.url,
+      params: descriptor.params as MiddlewareRequest['params'],
+      body: descriptor.data,
+      headers: {
+        ...this.buildHeaders(),
+        ...(descriptor.idempotencyKey && { 'Idempotency-Key': descriptor.idempotencyKey }),
+      },
+      attempt,
+    };
+
+    const middleware = [...this.middleware];
+    for (const mw of middleware) {
+      if (mw.onRequest) {
+        request = (await mw.onRequest(request)) || request;
+      }
+    }
+
+    let response: MiddlewareResponse;
+    for (let tried = 1; ; tried++) {
+      try {
+        const raw = await this.sendThroughTransport(request, descriptor.options);
+        response = { ...raw, request };
+        break;
+      } catch (error) {
+        // Try the next endpoint, unless middleware pointed the request somewhere else
+        if (
+          tried < this.endpoints.size &&
+          this.endpoints.has(request.baseURL) &&
+          this.shouldFailOver(descriptor, error)
+        ) {
+          const next = this.endpoints.failOver(request.baseURL, error as MarketServiceError);
+          request = { ...request, baseURL: next };
+          continue;
+        }
+        response = await this.recoverWithMiddleware(error as MarketServiceError, request, middleware);
+        break;
+      }
+    }
+
+    for (const mw of middleware.reverse()) {
+      if (mw.onResponse) {
+        response = (await mw.onResponse(response)) || response;
+      }
+    }
+
+    if (descriptor.idempotencyKey && response.headers['idempotent-replayed'] === 'true') {
+      this.config.onIdempotentReplay?.({
+        operation: descriptor.operation,
+        method: request.method,
+        path: request.path,
+        idempotencyKey: descriptor.idempotencyKey,
+        status: response.status,
+      });
     }
+    return response.body as T;
+  }
+
+  /**
+   * Send one attempt through the transport (HTTP, a custom transport, or a cassette)
+   * Every transport gets the same version tracking and error conversion
+   */
+  private async sendThroughTransport(
+    request: MiddlewareRequest,
+    options?: RequestOptions
+  ): Promise<TransportResponse> {
+    const context: MarketServiceErrorContext = { method: request.method, path: request.path };
+    throwIfAborted(options?.signal);
+
+    let response: TransportResponse;
+    try {
+      response = await this.transport({
+        ...request,
+        signal: options?.signal,
+        timeout: options?.timeout ?? (this.config.timeout || 10000),
+      });
+    } catch (error) {
+      if (error instanceof MarketServiceError) throw error;
+      throw new NetworkError(
+        `Transport failed: ${(error as Error)?.message || error}`,
+        'NETWORK_ERROR',
+        context
+      );
+    }
+
+    const headers = toPlainHeaders(response.headers);
+    this.parseVersionHeaders(headers);
+    if (response.status < 200 || response.status >= 300) {
+      throw this.responseError(response.status, response.body, headers, context);
+    }
+    return { ...response, headers };
+  }
+
+  /**
+   * Whether a failed attempt should move to the next endpoint
+   * Connection failures always do. Timeouts and 5xx responses may have reached the service,
+   * so they only do for requests that are safe to repeat.
+   */
+  private shouldFailOver(descriptor: RequestDescriptor, error: unknown): boolean {
+    if (!(error instanceof MarketServiceError)) return false;
+    if (error instanceof NetworkError && !(error instanceof TimeoutError)) return true;
+    const repeatable = this.isIdempotent(descriptor) || !!descriptor.idempotencyKey;
+    return repeatable && (error instanceof TimeoutError || (error.statusCode ?? 0) >= 500);
+  }
+
+  /**
+   * Health-check an endpoint directly, bypassing middleware, retries and failover
+   */
+  private async probeEndpoint(endpoint: string): Promise<boolean> {
+    const response = await this.transport({
+      operation: 'healthCheck',
+      method: 'GET',
+      baseURL: endpoint,
+      path: '/health',
+      headers: this.buildHeaders(),
+      attempt: 1,
+      timeout: this.config.timeout || 10000,
+    });
+    return response.status >= 200 && response.status < 300;
+  }
+
+  /**
+   * Default transport: send the request over HTTP
+   */
+  private async sendOverHttp(request: TransportRequest): Promise<TransportResponse> {
+    const raw = await this.client.request({
+      method: request.method,
+      baseURL: request.baseURL,
+      url: request.path,
+      params: request.params,
+      data: request.body,
+      headers: request.headers,
+      signal: request.signal,
+      timeout: request.timeout,
+    });
+    return { status: raw.status, headers: toPlainHeaders(raw.headers), body: raw.data };
+  }
+
+  /**
+   * Give onError hooks a chance to recover from a failed attempt
+   * A hook may return a response to recover, throw to replace the error, or return nothing to pass it on
+   */
+  private async recoverWithMiddleware(
+    error: MarketServiceError,
+    request: MiddlewareRequest,
+    middleware: Middleware[]
+  ): Promise<MiddlewareResponse> {
+    let current = error;
+    for (let i = middleware.length - 1; i >= 0; i--) {
+      const onError = middleware[i].onError;
+      if (!onError) continue;
+      try {
+        const recovered = await onError(current, request);
+        if (recovered) return recovered;
+      } catch (replacement) {
+        current = replacement as MarketServiceError;
+      }
+    }
+    throw current;
   }
 
   // ============================================
@@ -266,6 +948,29 @@ export class MarketServiceClient {
     return SDK_VERSION;
   }
 
+  /**
+   * Ask the service whether this SDK version is supported
+   * Sends a health check (never blocked by `versionPolicy`, never cached) and returns the
+   * resulting version status; further calls are blocked afterwards if the policy says so.
+   *
+   * @example
+   * const status = await client.checkCompatibility();
+   * if (status.updateRequired) showUpgradeBanner(status);
+   */
+  async checkCompatibility(options?: RequestOptions): Promise<SDKVersionStatus> {
+    await this.execute({ operation: 'checkCompatibility', method: 'get', url: '/health', options });
+
+    return this.versionStatus || {
+      current: SDK_VERSION,
+      latest: SDK_VERSION,
+      minimum: SDK_VERSION,
+      status: 'unknown',
+      updateRequired: false,
+      updateAvailable: false,
+      checkedAt: new Date(),
+    };
+  }
+
   /**
    * Subscribe to version status changes
    */
@@ -281,12 +986,60 @@ export class MarketServiceClient {
     };
   }
 
+  /**
+   * Add a middleware to the request pipeline
+   * Returns a function that removes it again
+   *
+   * @example
+   * client.use({
+   *   onRequest: (req) => ({ ...req, headers: { ...req.headers, 'X-Signature': sign(req) } }),
+   * });
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index > -1) {
+        this.middleware.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Get a view of this client scoped to one brand and client
+   * The view injects the IDs into every call and rejects other tenants' markets with
+   * `TenantMismatchError`; it shares this client's connection, cache and credentials.
+   *
+   * @example
+   * const acme = client.forTenant({ brandId: 1, clientId: 42 });
+   * const markets = await acme.getMarkets();
+   */
+  forTenant(tenant: TenantScope): TenantClient<D> {
+    return new TenantClient(this, tenant);
+  }
+
+  /**
+   * Get client-side rate limiter state (queue depth, in-flight calls, pause)
+   * Returns null when `rateLimit` is not configured
+   */
+  getRateLimiterStats(): RateLimiterStats | null {
+    return this.rateLimiter ? this.rateLimiter.stats() : null;
+  }
+
+  /**
+   * Get the circuit breaker state
+   * Returns null when `circuitBreaker` is not configured
+   */
+  getCircuitState(): CircuitState | null {
+    return this.circuitBreaker ? this.circuitBreaker.getState() : null;
+  }
+
   /**
    * Update JWT token for user-level authentication
    */
   setJwtToken(token: string): void {
     this.config.jwtToken = token;
-    this.client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
   }
 
   /**
@@ -294,7 +1047,6 @@ export class MarketServiceClient {
    */
   clearJwtToken(): void {
     this.config.jwtToken = undefined;
-    delete this.client.defaults.headers.common['Authorization'];
   }
 
   /**
@@ -302,21 +1054,47 @@ export class MarketServiceClient {
    */
   setApiKey(apiKey: string): void {
     this.config.apiKey = apiKey;
-    this.client.defaults.headers.common['X-API-Key'] = apiKey;
+  }
+
+  /**
+   * Stage the next API key for a zero-downtime rotation
+   * Requests keep using the current key until the service rejects it with
+   * `EXPIRED_API_KEY` or `INVALID_API_KEY`; the request is then replayed with the next key,
+   * which is promoted and reported to `onKeyRotated` once the service accepts it.
+   */
+  rotateApiKey(nextApiKey: string): void {
+    this.nextApiKey = nextApiKey;
+  }
+
+  /**
+   * Invalidate cached responses
+   * Accepts an API path prefix (e.g. `/api/counties`) or a pattern; clears the whole cache when omitted
+   */
+  async invalidateCache(match?: string | RegExp): Promise<void> {
+    await this.cache?.invalidate(match);
+  }
+
+  /**
+   * Drop cached cost adders (and lookups, which embed them) for one market or all markets
+   */
+  private async invalidateCostAdders(marketId?: string): Promise<void> {
+    await this.invalidateCache(
+      marketId ? `/api/markets/${marketId}/cost-adders` : /^\/api\/markets\/[^/ ]+\/cost-adders /
+    );
+    await this.invalidateCache('/api/markets/lookup');
   }
 
   /**
    * Health check - also validates API key
    */
-  async healthCheck(): Promise<{
+  async healthCheck(options?: RequestOptions): Promise<{
     status: string;
     service: string;
     version: string;
     timestamp: string;
     authenticated: boolean;
   }> {
-    const response = await this.client.get('/health');
-    return response.data;
+    return this.request({ operation: 'healthCheck', method: 'get', url: '/health', options });
   }
 
   // ============================================
@@ -330,88 +1108,124 @@ export class MarketServiceClient {
     client_id?: number;
     brand_id?: number;
     active?: boolean;
-  }): Promise<Market[]> {
-    const response = await this.client.get<ApiResponse<Market[]>>('/api/markets', {
+  }, options?: RequestOptions): Promise<Market<D>[]> {
+    const body = await this.request<ApiResponse<Market<D>[]>>({
+      operation: 'getMarkets',
+      method: 'get',
+      url: '/api/markets',
       params: filters,
+      options,
     });
-    return response.data.data || [];
+    return body.data || [];
   }
 
   /**
    * Get market by UUID
    */
-  async getMarketById(id: string): Promise<Market> {
-    const response = await this.client.get<ApiResponse<Market>>(`/api/markets/${id}`);
-    if (!response.data.data) {
-      throw new MarketServiceError('Market not found', 'NOT_FOUND', 404);
+  async getMarketById(id: string, options?: RequestOptions): Promise<Market<D>> {
+    const body = await this.request<ApiResponse<Market<D>>>({
+      operation: 'getMarketById',
+      method: 'get',
+      url: `/api/markets/${id}`,
+      options,
+    });
+    if (!body.data) {
+      throw new NotFoundError('Market not found');
     }
-    return response.data.data;
+    return body.data;
   }
 
   /**
    * Get market by legacy integer ID
    */
-  async getMarketByLegacyId(legacyId: number): Promise<Market> {
-    const response = await this.client.get<ApiResponse<Market>>(
-      `/api/markets/by-legacy-id/${legacyId}`
-    );
-    if (!response.data.data) {
-      throw new MarketServiceError('Market not found', 'NOT_FOUND', 404);
+  async getMarketByLegacyId(legacyId: number, options?: RequestOptions): Promise<Market<D>> {
+    const body = await this.request<ApiResponse<Market<D>>>({
+      operation: 'getMarketByLegacyId',
+      method: 'get',
+      url: `/api/markets/by-legacy-id/${legacyId}`,
+      options,
+    });
+    if (!body.data) {
+      throw new NotFoundError('Market not found');
     }
-    return response.data.data;
+    return body.data;
   }
 
   /**
    * Create new market
+   * Sent with an `Idempotency-Key` (generated unless given in options), so it is retried safely
    */
-  async createMarket(data: CreateMarketRequest): Promise<Market> {
-    const response = await this.client.post<ApiResponse<Market>>('/api/markets', data);
-    if (!response.data.data) {
+  async createMarket(data: CreateMarketRequest, options?: CreateOptions): Promise<Market<D>> {
+    const body = await this.request<ApiResponse<Market<D>>>({
+      operation: 'createMarket',
+      method: 'post',
+      url: '/api/markets',
+      data,
+      idempotencyKey: options?.idempotencyKey || generateIdempotencyKey(),
+      options,
+    });
+    if (!body.data) {
       throw new MarketServiceError('Failed to create market', 'CREATE_FAILED');
     }
-    return response.data.data;
+    await this.invalidateCache('/api/markets');
+    return body.data;
   }
 
   /**
    * Update market
    */
-  async updateMarket(id: string, data: UpdateMarketRequest): Promise<Market> {
-    const response = await this.client.put<ApiResponse<Market>>(`/api/markets/${id}`, data);
-    if (!response.data.data) {
+  async updateMarket(id: string, data: UpdateMarketRequest, options?: RequestOptions): Promise<Market<D>> {
+    const body = await this.request<ApiResponse<Market<D>>>({
+      operation: 'updateMarket',
+      method: 'put',
+      url: `/api/markets/${id}`,
+      data,
+      options,
+    });
+    if (!body.data) {
       throw new MarketServiceError('Failed to update market', 'UPDATE_FAILED');
     }
-    return response.data.data;
+    await this.invalidateCache('/api/markets');
+    return body.data;
   }
 
   /**
    * Delete market (soft delete)
    */
-  async deleteMarket(id: string): Promise<void> {
-    await this.client.delete(`/api/markets/${id}`);
+  async deleteMarket(id: string, options?: RequestOptions): Promise<void> {
+    await this.request({ operation: 'deleteMarket', method: 'delete', url: `/api/markets/${id}`, options });
+    await this.invalidateCache('/api/markets');
   }
 
   /**
    * Lookup market by location
    */
-  async lookupMarket(request: MarketLookupRequest): Promise<MarketLookupResponse> {
-    const response = await this.client.post<ApiResponse<MarketLookupResponse>>(
-      '/api/markets/lookup',
-      request
-    );
-    if (!response.data.data) {
+  async lookupMarket(request: MarketLookupRequest, options?: RequestOptions): Promise<MarketLookupResponse<D>> {
+    const body = await this.request<ApiResponse<MarketLookupResponse<D>>>({
+      operation: 'lookupMarket',
+      method: 'post',
+      url: '/api/markets/lookup',
+      data: request,
+      idempotent: true,
+      options,
+    });
+    if (!body.data) {
       throw new MarketServiceError('Failed to lookup market', 'LOOKUP_FAILED');
     }
-    return response.data.data;
+    return body.data;
   }
 
   /**
    * Get serviceable counties for a market
    */
-  async getServiceableCounties(marketId: string): Promise<ServiceableCounty[]> {
-    const response = await this.client.get<ApiResponse<ServiceableCounty[]>>(
-      `/api/markets/${marketId}/serviceable-counties`
-    );
-    return response.data.data || [];
+  async getServiceableCounties(marketId: string, options?: RequestOptions): Promise<ServiceableCounty[]> {
+    const body = await this.request<ApiResponse<ServiceableCounty[]>>({
+      operation: 'getServiceableCounties',
+      method: 'get',
+      url: `/api/markets/${marketId}/serviceable-counties`,
+      options,
+    });
+    return body.data || [];
   }
 
   // ============================================
@@ -421,46 +1235,137 @@ export class MarketServiceClient {
   /**
    * Get cost adders for a market
    */
-  async getCostAdders(marketId: string): Promise<CostAdder[]> {
-    const response = await this.client.get<ApiResponse<CostAdder[]>>(
-      `/api/markets/${marketId}/cost-adders`
-    );
-    return response.data.data || [];
+  async getCostAdders(marketId: string, options?: RequestOptions): Promise<CostAdder<D>[]> {
+    const body = await this.request<ApiResponse<CostAdder<D>[]>>({
+      operation: 'getCostAdders',
+      method: 'get',
+      url: `/api/markets/${marketId}/cost-adders`,
+      options,
+    });
+    return body.data || [];
   }
 
   /**
    * Create cost adder
+   * Sent with an `Idempotency-Key` (generated unless given in options), so it is retried safely
    */
-  async createCostAdder(marketId: string, data: Omit<CreateCostAdderRequest, 'market_id'>): Promise<CostAdder> {
-    const response = await this.client.post<ApiResponse<CostAdder>>(
-      `/api/markets/${marketId}/cost-adders`,
-      data
-    );
-    if (!response.data.data) {
+  async createCostAdder(
+    marketId: string,
+    data: Omit<CreateCostAdderRequest, 'market_id'>,
+    options?: CreateOptions & CostAdderWriteOptions
+  ): Promise<CostAdder<D>> {
+    if (options?.preflight) {
+      await this.preflightCostAdder(
+        marketId,
+        {
+          id: PREFLIGHT_ADDER_ID,
+          market_id: marketId,
+          applies_to_retail: true,
+          applies_to_lom: true,
+          display_on_proposal: false,
+          active: true,
+          created_at: '',
+          updated_at: '',
+          ...data,
+        },
+        options
+      );
+    }
+    const body = await this.request<ApiResponse<CostAdder<D>>>({
+      operation: 'createCostAdder',
+      method: 'post',
+      url: `/api/markets/${marketId}/cost-adders`,
+      data,
+      idempotencyKey: options?.idempotencyKey || generateIdempotencyKey(),
+      options,
+    });
+    if (!body.data) {
       throw new MarketServiceError('Failed to create cost adder', 'CREATE_FAILED');
     }
-    return response.data.data;
+    await this.invalidateCostAdders(marketId);
+    return body.data;
   }
 
   /**
    * Update cost adder
    */
-  async updateCostAdder(costAdderId: string, data: UpdateCostAdderRequest): Promise<CostAdder> {
-    const response = await this.client.put<ApiResponse<CostAdder>>(
-      `/api/cost-adders/${costAdderId}`,
-      data
-    );
-    if (!response.data.data) {
+  async updateCostAdder(
+    costAdderId: string,
+    data: UpdateCostAdderRequest,
+    options?: RequestOptions & CostAdderWriteOptions
+  ): Promise<CostAdder<D>> {
+    if (options?.preflight) {
+      if (!options.marketId) {
+        throw new MarketServiceError(
+          'updateCostAdder needs options.marketId to run a preflight check',
+          'MISSING_MARKET_ID'
+        );
+      }
+      const existing = (await this.getCostAdders(options.marketId, options)).find(
+        (adder) => adder.id === costAdderId
+      );
+      if (!existing) {
+        throw new NotFoundError(`Cost adder ${costAdderId} not found in market ${options.marketId}`);
+      }
+      await this.preflightCostAdder(options.marketId, { ...existing, ...data }, options);
+    }
+    const body = await this.request<ApiResponse<CostAdder<D>>>({
+      operation: 'updateCostAdder',
+      method: 'put',
+      url: `/api/cost-adders/${costAdderId}`,
+      data,
+      options,
+    });
+    if (!body.data) {
       throw new MarketServiceError('Failed to update cost adder', 'UPDATE_FAILED');
     }
-    return response.data.data;
+    await this.invalidateCostAdders(body.data.market_id);
+    return body.data;
+  }
+
+  /**
+   * Check a cost adder write against the market's other adders
+   * Errors involving the adder throw `CostAdderConflictError`; warnings are logged
+   */
+  private async preflightCostAdder(
+    marketId: string,
+    candidate: CostAdder,
+    options?: RequestOptions
+  ): Promise<void> {
+    const [market, existing] = await Promise.all([
+      this.getMarketById(marketId, options),
+      this.getCostAdders(marketId, options),
+    ]);
+    const report = validateCostAdders(
+      [...existing.filter((adder) => adder.id !== candidate.id), candidate],
+      { serviceableCounties: market.serviceable_counties }
+    );
+
+    const issues = report.issues.filter((issue) => issue.adderIds.includes(candidate.id));
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new CostAdderConflictError(
+        `Cost adder "${candidate.adder_name}" conflicts with market ${marketId}: ` +
+          errors.map((issue) => issue.message).join('; '),
+        issues
+      );
+    }
+    for (const issue of issues) {
+      console.warn(`[MarketServiceSDK] Warning: ${issue.message}`);
+    }
   }
 
   /**
    * Delete cost adder (soft delete)
    */
-  async deleteCostAdder(costAdderId: string): Promise<void> {
-    await this.client.delete(`/api/cost-adders/${costAdderId}`);
+  async deleteCostAdder(costAdderId: string, options?: RequestOptions): Promise<void> {
+    await this.request({
+      operation: 'deleteCostAdder',
+      method: 'delete',
+      url: `/api/cost-adders/${costAdderId}`,
+      options,
+    });
+    await this.invalidateCostAdders();
   }
 
   // ============================================
@@ -470,67 +1375,186 @@ export class MarketServiceClient {
   /**
    * Get counties with optional filters
    */
-  async getCounties(filters?: CountyDataFilters): Promise<CountyData[]> {
-    const response = await this.client.get<ApiResponse<CountyData[]>>('/api/counties', {
+  async getCounties(filters?: CountyDataFilters, options?: RequestOptions): Promise<CountyData<D>[]> {
+    const body = await this.request<ApiResponse<CountyData<D>[]>>({
+      operation: 'getCounties',
+      method: 'get',
+      url: '/api/counties',
       params: filters,
+      options,
     });
-    return response.data.data || [];
+    return body.data || [];
   }
 
   /**
-   * Get all counties in a state
+   * Get one page of counties, with the total count and the offset of the next page
    */
-  async getCountiesByState(stateCode: string): Promise<CountyData[]> {
-    const response = await this.client.get<ApiResponse<CountyData[]>>(
-      `/api/counties/by-state/${stateCode.toUpperCase()}`
+  async getCountiesPage(
+    filters?: CountyDataFilters,
+    options?: RequestOptions
+  ): Promise<Page<CountyData<D>>> {
+    const body = await this.request<ApiResponse<CountyData<D>[]>>({
+      operation: 'getCounties',
+      method: 'get',
+      url: '/api/counties',
+      params: filters,
+      options,
+    });
+    return toPage(body, filters?.offset ?? 0, filters?.limit);
+  }
+
+  /**
+   * Iterate over every county matching the filters, fetching pages as needed
+   * `limit` sets the page size (default: 100); `offset` sets where to start
+   *
+   * @example
+   * for await (const county of client.iterateCounties({ state_code: 'TX' })) {
+   *   console.log(county.county_name);
+   * }
+   */
+  iterateCounties(
+    filters?: CountyDataFilters,
+    options?: RequestOptions
+  ): AsyncGenerator<CountyData<D>, void, undefined> {
+    const limit = filters?.limit ?? DEFAULT_PAGE_SIZE;
+    return paginate(
+      (offset) => this.getCountiesPage({ ...filters, limit, offset }, options),
+      filters?.offset ?? 0
     );
-    return response.data.data || [];
+  }
+
+  /**
+   * Get all counties in a state
+   */
+  async getCountiesByState(stateCode: string, options?: RequestOptions): Promise<CountyData<D>[]> {
+    const body = await this.request<ApiResponse<CountyData<D>[]>>({
+      operation: 'getCountiesByState',
+      method: 'get',
+      url: `/api/counties/by-state/${stateCode.toUpperCase()}`,
+      options,
+    });
+    return body.data || [];
   }
 
   /**
    * Get county by FIPS code
    */
-  async getCountyByFips(countyFips: string): Promise<CountyData> {
-    const response = await this.client.get<ApiResponse<CountyData>>(
-      `/api/counties/${countyFips}`
-    );
-    if (!response.data.data) {
-      throw new MarketServiceError('County not found', 'NOT_FOUND', 404);
+  async getCountyByFips(countyFips: string, options?: RequestOptions): Promise<CountyData<D>> {
+    const body = await this.request<ApiResponse<CountyData<D>>>({
+      operation: 'getCountyByFips',
+      method: 'get',
+      url: `/api/counties/${countyFips}`,
+      options,
+    });
+    if (!body.data) {
+      throw new NotFoundError('County not found');
     }
-    return response.data.data;
+    return body.data;
+  }
+
+  /**
+   * Get counties for a list of FIPS codes
+   * Each county is fetched with `getCountyByFips`, a bounded number at a time, so cached and
+   * in-flight counties are reused. FIPS codes the service has no data for are reported in
+   * `missing`, and counties that could not be fetched in `failed`. A per-call `timeout` is a
+   * deadline for the whole list.
+   *
+   * @example
+   * const { counties, missing, failed } = await client.getCountiesByFips(fipsList);
+   */
+  async getCountiesByFips(
+    countyFipsList: string[],
+    batchOptions?: CountyBatchOptions,
+    options?: RequestOptions
+  ): Promise<CountyBatchResult<D>> {
+    const fipsList = Array.from(new Set(countyFipsList));
+    const deadline = options?.timeout === undefined ? undefined : Date.now() + options.timeout;
+
+    const settled = await mapSettled(fipsList, batchOptions?.concurrency ?? 8, (fips) =>
+      this.getCountyByFips(
+        fips,
+        deadline === undefined ? options : { ...options, timeout: deadline - Date.now() }
+      )
+    );
+
+    const result: CountyBatchResult<D> = { counties: [], missing: [], failed: [] };
+    settled.forEach((outcome, index) => {
+      const fips = fipsList[index];
+      if (outcome.status === 'fulfilled') {
+        result.counties.push(outcome.value);
+        return;
+      }
+      const error = outcome.reason;
+      if (error instanceof NotFoundError) {
+        result.missing.push(fips);
+        return;
+      }
+      // Cancellation applies to the whole call, not to individual counties
+      if (error instanceof MarketServiceError && error.code === 'ABORTED') {
+        throw error;
+      }
+      result.failed.push({
+        county_fips: fips,
+        error: error instanceof MarketServiceError
+          ? error
+          : new MarketServiceError(error?.message || 'County request failed', 'UNKNOWN_ERROR'),
+      });
+    });
+    return result;
   }
 
   /**
    * Get high-risk counties (by hail risk score)
    */
-  async getHighRiskCounties(limit: number = 50, stateCode?: string): Promise<CountyData[]> {
-    const response = await this.client.get<ApiResponse<CountyData[]>>('/api/counties/high-risk', {
+  async getHighRiskCounties(
+    limit: number = 50,
+    stateCode?: string,
+    options?: RequestOptions
+  ): Promise<CountyData<D>[]> {
+    const body = await this.request<ApiResponse<CountyData<D>[]>>({
+      operation: 'getHighRiskCounties',
+      method: 'get',
+      url: '/api/counties/high-risk',
       params: { limit, state_code: stateCode },
+      options,
     });
-    return response.data.data || [];
+    return body.data || [];
   }
 
   /**
    * Get high-value counties (by average home value)
    */
-  async getHighValueCounties(limit: number = 50, stateCode?: string): Promise<CountyData[]> {
-    const response = await this.client.get<ApiResponse<CountyData[]>>('/api/counties/high-value', {
+  async getHighValueCounties(
+    limit: number = 50,
+    stateCode?: string,
+    options?: RequestOptions
+  ): Promise<CountyData<D>[]> {
+    const body = await this.request<ApiResponse<CountyData<D>[]>>({
+      operation: 'getHighValueCounties',
+      method: 'get',
+      url: '/api/counties/high-value',
       params: { limit, state_code: stateCode },
+      options,
     });
-    return response.data.data || [];
+    return body.data || [];
   }
 
   /**
    * Get aggregated stats for a list of counties
    */
-  async getCountyStats(countyFipsList: string[]): Promise<CountyStats> {
-    const response = await this.client.post<ApiResponse<CountyStats>>('/api/counties/stats', {
-      county_fips_list: countyFipsList,
+  async getCountyStats(countyFipsList: string[], options?: RequestOptions): Promise<CountyStats> {
+    const body = await this.request<ApiResponse<CountyStats>>({
+      operation: 'getCountyStats',
+      method: 'post',
+      url: '/api/counties/stats',
+      data: { county_fips_list: countyFipsList },
+      idempotent: true,
+      options,
     });
-    if (!response.data.data) {
+    if (!body.data) {
       throw new MarketServiceError('Failed to get county stats', 'STATS_FAILED');
     }
-    return response.data.data;
+    return body.data;
   }
 
   // ============================================
@@ -540,12 +1564,19 @@ export class MarketServiceClient {
   /**
    * Check if client has access to permit history feature
    */
-  async checkPermitHistoryAccess(clientId: number, brandId?: number): Promise<FeatureAccessResult> {
-    const response = await this.client.get<ApiResponse<FeatureAccessResult>>(
-      '/api/permits/access',
-      { params: { client_id: clientId, brand_id: brandId } }
-    );
-    return response.data.data || { has_access: false };
+  async checkPermitHistoryAccess(
+    clientId: number,
+    brandId?: number,
+    options?: RequestOptions
+  ): Promise<FeatureAccessResult> {
+    const body = await this.request<ApiResponse<FeatureAccessResult>>({
+      operation: 'checkPermitHistoryAccess',
+      method: 'get',
+      url: '/api/permits/access',
+      params: { client_id: clientId, brand_id: brandId },
+      options,
+    });
+    return body.data || { has_access: false };
   }
 
   /**
@@ -555,13 +1586,17 @@ export class MarketServiceClient {
     countyFips: string,
     clientId: number,
     brandId?: number,
-    years: number = 5
+    years: number = 5,
+    options?: RequestOptions
   ): Promise<PermitHistory[]> {
-    const response = await this.client.get<ApiResponse<PermitHistory[]>>(
-      `/api/permits/county/${countyFips}`,
-      { params: { client_id: clientId, brand_id: brandId, years } }
-    );
-    return response.data.data || [];
+    const body = await this.request<ApiResponse<PermitHistory[]>>({
+      operation: 'getPermitHistory',
+      method: 'get',
+      url: `/api/permits/county/${countyFips}`,
+      params: { client_id: clientId, brand_id: brandId, years },
+      options,
+    });
+    return body.data || [];
   }
 
   /**
@@ -570,13 +1605,18 @@ export class MarketServiceClient {
   async getPermitHistorySummary(
     countyFipsList: string[],
     clientId: number,
-    brandId?: number
+    brandId?: number,
+    options?: RequestOptions
   ): Promise<PermitHistorySummary[]> {
-    const response = await this.client.post<ApiResponse<PermitHistorySummary[]>>(
-      '/api/permits/summary',
-      { county_fips_list: countyFipsList, client_id: clientId, brand_id: brandId }
-    );
-    return response.data.data || [];
+    const body = await this.request<ApiResponse<PermitHistorySummary[]>>({
+      operation: 'getPermitHistorySummary',
+      method: 'post',
+      url: '/api/permits/summary',
+      data: { county_fips_list: countyFipsList, client_id: clientId, brand_id: brandId },
+      idempotent: true,
+      options,
+    });
+    return body.data || [];
   }
 
   /**
@@ -585,27 +1625,38 @@ export class MarketServiceClient {
   async getTopCountiesByPermits(
     limit: number = 25,
     year?: number,
-    stateCode?: string
+    stateCode?: string,
+    options?: RequestOptions
   ): Promise<TopCountyByPermits[]> {
-    const response = await this.client.get<ApiResponse<TopCountyByPermits[]>>(
-      '/api/permits/top-counties',
-      { params: { limit, year, state_code: stateCode } }
-    );
-    return response.data.data || [];
+    const body = await this.request<ApiResponse<TopCountyByPermits[]>>({
+      operation: 'getTopCountiesByPermits',
+      method: 'get',
+      url: '/api/permits/top-counties',
+      params: { limit, year, state_code: stateCode },
+      options,
+    });
+    return body.data || [];
   }
 
   /**
    * Get state-level permit trends
    */
-  async getStateTrends(stateCode: string, years: number = 5): Promise<StateTrends> {
-    const response = await this.client.get<ApiResponse<StateTrends>>(
-      `/api/permits/state/${stateCode.toUpperCase()}`,
-      { params: { years } }
-    );
-    if (!response.data.data) {
-      throw new MarketServiceError('State trends not found', 'NOT_FOUND', 404);
+  async getStateTrends(
+    stateCode: string,
+    years: number = 5,
+    options?: RequestOptions
+  ): Promise<StateTrends> {
+    const body = await this.request<ApiResponse<StateTrends>>({
+      operation: 'getStateTrends',
+      method: 'get',
+      url: `/api/permits/state/${stateCode.toUpperCase()}`,
+      params: { years },
+      options,
+    });
+    if (!body.data) {
+      throw new NotFoundError('State trends not found');
     }
-    return response.data.data;
+    return body.data;
   }
 
   // ============================================
@@ -615,71 +1666,96 @@ export class MarketServiceClient {
   /**
    * Get markets for a specific brand
    */
-  async getMarketsByBrand(brandId: number, activeOnly: boolean = true): Promise<Market[]> {
-    return this.getMarkets({ brand_id: brandId, active: activeOnly });
+  async getMarketsByBrand(
+    brandId: number,
+    activeOnly: boolean = true,
+    options?: RequestOptions
+  ): Promise<Market<D>[]> {
+    return this.getMarkets({ brand_id: brandId, active: activeOnly }, options);
   }
 
   /**
    * Get markets for a specific client
    */
-  async getMarketsByClient(clientId: number, activeOnly: boolean = true): Promise<Market[]> {
-    return this.getMarkets({ client_id: clientId, active: activeOnly });
+  async getMarketsByClient(
+    clientId: number,
+    activeOnly: boolean = true,
+    options?: RequestOptions
+  ): Promise<Market<D>[]> {
+    return this.getMarkets({ client_id: clientId, active: activeOnly }, options);
   }
 
   /**
    * Find market and cost adders by brand and county
    */
-  async findMarketByCounty(brandId: number, countyFips: string): Promise<MarketLookupResponse> {
-    return this.lookupMarket({ brand_id: brandId, county_fips: countyFips });
+  async findMarketByCounty(
+    brandId: number,
+    countyFips: string,
+    options?: RequestOptions
+  ): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ brand_id: brandId, county_fips: countyFips }, options);
   }
 
   /**
    * Find market and cost adders by brand and state
    */
-  async findMarketByState(brandId: number, stateCode: string): Promise<MarketLookupResponse> {
-    return this.lookupMarket({ brand_id: brandId, state_code: stateCode });
+  async findMarketByState(
+    brandId: number,
+    stateCode: string,
+    options?: RequestOptions
+  ): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ brand_id: brandId, state_code: stateCode }, options);
   }
 
   /**
    * Find market and cost adders by brand and ZIP code
    */
-  async findMarketByZip(brandId: number, zip: string): Promise<MarketLookupResponse> {
-    return this.lookupMarket({ brand_id: brandId, zip });
+  async findMarketByZip(
+    brandId: number,
+    zip: string,
+    options?: RequestOptions
+  ): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ brand_id: brandId, zip }, options);
   }
 
   /**
    * Get active cost adders for a market, optionally filtered by quote type
+   * Dates are checked against `asOf` (default: now), e.g. to re-price a quote signed last month
    */
   async getActiveCostAdders(
     marketId: string,
-    options?: { quoteType?: 'retail' | 'lom'; countyFips?: string }
-  ): Promise<CostAdder[]> {
-    const costAdders = await this.getCostAdders(marketId);
-
-    return costAdders.filter((adder) => {
-      // Filter by active status
-      if (!adder.active) return false;
-
-      // Filter by quote type
-      if (options?.quoteType === 'retail' && !adder.applies_to_retail) return false;
-      if (options?.quoteType === 'lom' && !adder.applies_to_lom) return false;
-
-      // Filter by county
-      if (options?.countyFips && adder.county_fips && adder.county_fips !== options.countyFips) {
-        return false;
-      }
-
-      // Filter by effective/expiration dates
-      const now = new Date();
-      if (adder.effective_date && new Date(adder.effective_date) > now) return false;
-      if (adder.expiration_date && new Date(adder.expiration_date) < now) return false;
+    options?: ActiveCostAdderOptions,
+    requestOptions?: RequestOptions
+  ): Promise<CostAdder<D>[]> {
+    const asOf = toAsOf(options?.asOf);
+    const costAdders = await this.getCostAdders(marketId, requestOptions);
+    return costAdders.filter((adder) => isCostAdderApplicable(adder, { ...options, asOf }));
+  }
 
-      return true;
-    });
+  /**
+   * List the distinct pricing periods of a market within a date range
+   * Each period gives the adders that apply throughout it, so scheduled changes can be previewed
+   *
+   * @example
+   * const periods = await client.getCostAdderTimeline(marketId, { from: '2025-01-01', to: '2025-12-31' }, {
+   *   quoteType: 'retail',
+   * });
+   * // [{ from, to, costAdders }, ...]
+   */
+  async getCostAdderTimeline(
+    marketId: string,
+    range: CostAdderTimelineRange,
+    options?: Omit<ActiveCostAdderOptions, 'asOf'>,
+    requestOptions?: RequestOptions
+  ): Promise<CostAdderPeriod<D>[]> {
+    const costAdders = await this.getCostAdders(marketId, requestOptions);
+    return buildCostAdderTimeline(costAdders, range, options);
   }
 
   /**
    * Calculate total cost adders for a quote
+   * Uses floating-point dollars and applies percentages to the base price;
+   * use `priceCostAdders` for cent-accurate totals
    */
   calculateCostAdders(
     costAdders: CostAdder[],
@@ -714,6 +1790,100 @@ export class MarketServiceClient {
 
     return { totalAdderCost, breakdown };
   }
+
+  /**
+   * Price cost adders for a quote in integer cents
+   * Evaluates fixed, per-square, then percentage adders, with per-adder rounding and clamps
+   *
+   * @example
+   * const pricing = client.priceCostAdders(adders, { basePrice: 15000, roofSquares: 35 }, {
+   *   percentageBasis: 'subtotal',
+   *   rules: { [permitAdderId]: { minCents: 25000 } },
+   * });
+   * // pricing.totalCents, pricing.lines[0].amountCents
+   */
+  priceCostAdders(
+    costAdders: CostAdder<D>[],
+    input: PricingInput,
+    options?: PricingOptions
+  ): CostAdderPricing {
+    return priceCostAdders(costAdders, input, options);
+  }
+
+  /**
+   * Build customer-facing proposal line items from priced adders
+   * Visible adders are itemized, hidden ones rolled into the base price; amounts are
+   * formatted for the locale and currency. Render with `renderProposalText` / `renderProposalHtml`.
+   *
+   * @example
+   * const quote = await client.priceQuote({ brandId: 1, zip: '80202', quoteType: 'retail', basePrice, roofSquares });
+   * const proposal = client.buildProposal(quote, { locale: 'en-US', currency: 'USD' });
+   */
+  buildProposal(pricing: CostAdderPricing, options?: ProposalOptions): Proposal {
+    return buildProposal(pricing, options);
+  }
+
+  /**
+   * Find cost adders that would double-charge or misprice a quote
+   * Reports duplicates, overlapping dates, county adders shadowing market-wide ones,
+   * negative or out-of-range values, and adders for counties the market does not serve
+   */
+  validateCostAdders(
+    costAdders: CostAdder<D>[],
+    options?: CostAdderValidationOptions
+  ): CostAdderValidationReport {
+    return validateCostAdders(costAdders, options);
+  }
+
+  /**
+   * Price a quote for a location in one call
+   * Looks up the market, keeps the adders that apply to the quote type, county and date,
+   * and prices them with `priceCostAdders`
+   *
+   * @example
+   * const quote = await client.priceQuote({
+   *   brandId: 1,
+   *   zip: '80202',
+   *   quoteType: 'retail',
+   *   basePrice: 15000,
+   *   roofSquares: 35,
+   * });
+   * // quote.market, quote.matchedBy, quote.proposalLines, quote.totalCents
+   */
+  async priceQuote(request: PriceQuoteRequest, options?: RequestOptions): Promise<QuotePrice<D>> {
+    if (!request.zip && !request.countyFips && !request.stateCode) {
+      throw new MarketServiceError(
+        'priceQuote needs a zip, countyFips or stateCode',
+        'INVALID_PRICING_INPUT'
+      );
+    }
+    const asOf = toAsOf(request.asOf);
+
+    const lookup = await this.lookupMarket(
+      {
+        brand_id: request.brandId,
+        ...(request.zip && { zip: request.zip }),
+        ...(request.countyFips && { county_fips: request.countyFips }),
+        ...(request.stateCode && { state_code: request.stateCode }),
+      },
+      options
+    );
+
+    // The service already limits adders to the matched county; the rest is filtered here
+    const costAdders = lookup.cost_adders.filter((adder) =>
+      isCostAdderApplicable(adder, { quoteType: request.quoteType, countyFips: request.countyFips, asOf })
+    );
+    const pricing = priceCostAdders(costAdders, request, { ...request.pricing, asOf });
+
+    return {
+      market: lookup.market,
+      matchedBy: lookup.matched_by,
+      costAdders,
+      ...pricing,
+      proposalLines: pricing.lines.filter((line) => line.displayOnProposal),
+      asOf,
+    };
+  }
 }
 
 export default MarketServiceClient;
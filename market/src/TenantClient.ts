@@ -0,0 +1,318 @@
+/**
+ * Tenant-scoped client view
+ * Injects a brand and client ID into every call and refuses to touch other tenants' data
+ */
+
+import type { MarketServiceClient } from './MarketServiceClient';
+import {
+  Market,
+  CostAdder,
+  CreateMarketRequest,
+  UpdateMarketRequest,
+  CreateCostAdderRequest,
+  UpdateCostAdderRequest,
+  MarketLookupRequest,
+  MarketLookupResponse,
+  ServiceableCounty,
+  FeatureAccessResult,
+  PermitHistory,
+  PermitHistorySummary,
+  PriceQuoteRequest,
+  QuotePrice,
+  ActiveCostAdderOptions,
+  CostAdderPeriod,
+  CostAdderTimelineRange,
+  CostAdderWriteOptions,
+  DateField,
+  RequestOptions,
+  CreateOptions,
+  TenantScope,
+  TenantMismatchError,
+} from './types';
+
+/**
+ * Scoped view returned by `client.forTenant()`
+ *
+ * Shares the parent client's connection, cache, middleware and credentials.
+ * Markets are checked against the tenant before they are returned or changed;
+ * a mismatch throws `TenantMismatchError` (code `TENANT_MISMATCH`).
+ */
+export class TenantClient<D extends DateField = DateField> {
+  constructor(
+    /** The client this view sends requests through */
+    public readonly client: MarketServiceClient<D>,
+    public readonly tenant: TenantScope
+  ) {}
+
+  // ============================================
+  // MARKET OPERATIONS
+  // ============================================
+
+  /**
+   * Get the tenant's markets
+   */
+  async getMarkets(filters?: { active?: boolean }, options?: RequestOptions): Promise<Market<D>[]> {
+    const markets = await this.client.getMarkets(
+      { ...filters, brand_id: this.tenant.brandId, client_id: this.tenant.clientId },
+      options
+    );
+    return markets.filter((market) => this.owns(market));
+  }
+
+  /**
+   * Get one of the tenant's markets by UUID
+   */
+  async getMarketById(id: string, options?: RequestOptions): Promise<Market<D>> {
+    return this.assertOwned(await this.client.getMarketById(id, options));
+  }
+
+  /**
+   * Get one of the tenant's markets by legacy ID
+   */
+  async getMarketByLegacyId(legacyId: number, options?: RequestOptions): Promise<Market<D>> {
+    return this.assertOwned(await this.client.getMarketByLegacyId(legacyId, options));
+  }
+
+  /**
+   * Create a market for the tenant
+   */
+  async createMarket(
+    data: Omit<CreateMarketRequest, 'brand_id' | 'client_id'> &
+      Partial<Pick<CreateMarketRequest, 'brand_id' | 'client_id'>>,
+    options?: CreateOptions
+  ): Promise<Market<D>> {
+    this.assertIds(data.brand_id, data.client_id, 'create a market');
+    if (data.parent_market_id) {
+      await this.getMarketById(data.parent_market_id, options);
+    }
+    return this.client.createMarket(
+      { ...data, brand_id: this.tenant.brandId, client_id: this.tenant.clientId },
+      options
+    );
+  }
+
+  /**
+   * Update one of the tenant's markets
+   */
+  async updateMarket(id: string, data: UpdateMarketRequest, options?: RequestOptions): Promise<Market<D>> {
+    await this.getMarketById(id, options);
+    if (data.parent_market_id) {
+      await this.getMarketById(data.parent_market_id, options);
+    }
+    return this.client.updateMarket(id, data, options);
+  }
+
+  /**
+   * Delete one of the tenant's markets
+   */
+  async deleteMarket(id: string, options?: RequestOptions): Promise<void> {
+    await this.getMarketById(id, options);
+    await this.client.deleteMarket(id, options);
+  }
+
+  /**
+   * Look up the tenant's market for a location
+   */
+  async lookupMarket(
+    request: Omit<MarketLookupRequest, 'brand_id'>,
+    options?: RequestOptions
+  ): Promise<MarketLookupResponse<D>> {
+    const result = await this.client.lookupMarket({ ...request, brand_id: this.tenant.brandId }, options);
+    if (result.market) this.assertOwned(result.market);
+    return result;
+  }
+
+  /**
+   * Find the tenant's market and cost adders by county
+   */
+  async findMarketByCounty(countyFips: string, options?: RequestOptions): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ county_fips: countyFips }, options);
+  }
+
+  /**
+   * Find the tenant's market and cost adders by state
+   */
+  async findMarketByState(stateCode: string, options?: RequestOptions): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ state_code: stateCode }, options);
+  }
+
+  /**
+   * Find the tenant's market and cost adders by ZIP code
+   */
+  async findMarketByZip(zip: string, options?: RequestOptions): Promise<MarketLookupResponse<D>> {
+    return this.lookupMarket({ zip }, options);
+  }
+
+  /**
+   * Price a quote for a location with the tenant's market
+   */
+  async priceQuote(
+    request: Omit<PriceQuoteRequest, 'brandId'>,
+    options?: RequestOptions
+  ): Promise<QuotePrice<D>> {
+    const quote = await this.client.priceQuote({ ...request, brandId: this.tenant.brandId }, options);
+    if (quote.market) this.assertOwned(quote.market);
+    return quote;
+  }
+
+  /**
+   * Get serviceable counties for one of the tenant's markets
+   */
+  async getServiceableCounties(marketId: string, options?: RequestOptions): Promise<ServiceableCounty[]> {
+    await this.getMarketById(marketId, options);
+    return this.client.getServiceableCounties(marketId, options);
+  }
+
+  // ============================================
+  // COST ADDER OPERATIONS
+  // ============================================
+
+  /**
+   * Get cost adders for one of the tenant's markets
+   */
+  async getCostAdders(marketId: string, options?: RequestOptions): Promise<CostAdder<D>[]> {
+    await this.getMarketById(marketId, options);
+    return this.client.getCostAdders(marketId, options);
+  }
+
+  /**
+   * Get active cost adders for one of the tenant's markets
+   */
+  async getActiveCostAdders(
+    marketId: string,
+    options?: ActiveCostAdderOptions,
+    requestOptions?: RequestOptions
+  ): Promise<CostAdder<D>[]> {
+    await this.getMarketById(marketId, requestOptions);
+    return this.client.getActiveCostAdders(marketId, options, requestOptions);
+  }
+
+  /**
+   * List the pricing periods of one of the tenant's markets within a date range
+   */
+  async getCostAdderTimeline(
+    marketId: string,
+    range: CostAdderTimelineRange,
+    options?: Omit<ActiveCostAdderOptions, 'asOf'>,
+    requestOptions?: RequestOptions
+  ): Promise<CostAdderPeriod<D>[]> {
+    await this.getMarketById(marketId, requestOptions);
+    return this.client.getCostAdderTimeline(marketId, range, options, requestOptions);
+  }
+
+  /**
+   * Create a cost adder on one of the tenant's markets
+   */
+  async createCostAdder(
+    marketId: string,
+    data: Omit<CreateCostAdderRequest, 'market_id'>,
+    options?: CreateOptions & CostAdderWriteOptions
+  ): Promise<CostAdder<D>> {
+    await this.getMarketById(marketId, options);
+    return this.client.createCostAdder(marketId, data, options);
+  }
+
+  /**
+   * Update a cost adder on one of the tenant's markets
+   * Takes the market ID so ownership can be checked before the write
+   */
+  async updateCostAdder(
+    marketId: string,
+    costAdderId: string,
+    data: UpdateCostAdderRequest,
+    options?: RequestOptions & Omit<CostAdderWriteOptions, 'marketId'>
+  ): Promise<CostAdder<D>> {
+    await this.assertCostAdderOwned(marketId, costAdderId, options);
+    return this.client.updateCostAdder(costAdderId, data, { ...options, marketId });
+  }
+
+  /**
+   * Delete a cost adder on one of the tenant's markets
+   */
+  async deleteCostAdder(marketId: string, costAdderId: string, options?: RequestOptions): Promise<void> {
+    await this.assertCostAdderOwned(marketId, costAdderId, options);
+    await this.client.deleteCostAdder(costAdderId, options);
+  }
+
+  // ============================================
+  // PERMIT HISTORY OPERATIONS (PREMIUM)
+  // ============================================
+
+  /**
+   * Check if the tenant has access to the permit history feature
+   */
+  async checkPermitHistoryAccess(options?: RequestOptions): Promise<FeatureAccessResult> {
+    return this.client.checkPermitHistoryAccess(this.tenant.clientId, this.tenant.brandId, options);
+  }
+
+  /**
+   * Get permit history for a county
+   */
+  async getPermitHistory(countyFips: string, years: number = 5, options?: RequestOptions): Promise<PermitHistory[]> {
+    return this.client.getPermitHistory(countyFips, this.tenant.clientId, this.tenant.brandId, years, options);
+  }
+
+  /**
+   * Get permit history summary for multiple counties
+   */
+  async getPermitHistorySummary(
+    countyFipsList: string[],
+    options?: RequestOptions
+  ): Promise<PermitHistorySummary[]> {
+    return this.client.getPermitHistorySummary(
+      countyFipsList,
+      this.tenant.clientId,
+      this.tenant.brandId,
+      options
+    );
+  }
+
+  // ============================================
+  // TENANT CHECKS
+  // ============================================
+
+  private owns(market: Market<D>): boolean {
+    return (
+      Number(market.brand_id) === this.tenant.brandId &&
+      Number(market.client_id) === this.tenant.clientId
+    );
+  }
+
+  private assertOwned(market: Market<D>): Market<D> {
+    if (!this.owns(market)) {
+      throw new TenantMismatchError(
+        `Market ${market.id} belongs to brand ${market.brand_id} / client ${market.client_id}, ` +
+          `not brand ${this.tenant.brandId} / client ${this.tenant.clientId}`,
+        this.tenant
+      );
+    }
+    return market;
+  }
+
+  private assertIds(brandId: number | undefined, clientId: number | undefined, action: string): void {
+    if (
+      (brandId !== undefined && brandId !== this.tenant.brandId) ||
+      (clientId !== undefined && clientId !== this.tenant.clientId)
+    ) {
+      throw new TenantMismatchError(
+        `Cannot ${action} for brand ${brandId ?? this.tenant.brandId} / client ${clientId ?? this.tenant.clientId} ` +
+          `from a client scoped to brand ${this.tenant.brandId} / client ${this.tenant.clientId}`,
+        this.tenant
+      );
+    }
+  }
+
+  private async assertCostAdderOwned(
+    marketId: string,
+    costAdderId: string,
+    options?: RequestOptions
+  ): Promise<void> {
+    const adders = await this.getCostAdders(marketId, options);
+    if (!adders.some((adder) => adder.id === costAdderId)) {
+      throw new TenantMismatchError(
+        `Cost adder ${costAdderId} does not belong to market ${marketId}`,
+        this.tenant
+      );
+    }
+  }
+}
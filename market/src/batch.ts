@@ -0,0 +1,32 @@
+/**
+ * Batching helpers
+ * Run many requests with bounded concurrency
+ */
+
+/**
+ * Run `task` for every item with at most `concurrency` tasks in flight
+ * Results are returned in input order as settled results, so one failure does not lose the rest
+ */
+export async function mapSettled<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
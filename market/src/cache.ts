@@ -0,0 +1,164 @@
+/**
+ * Response cache
+ * TTL cache with stale-while-revalidate for rarely-changing reference data
+ */
+
+import { CacheEntry, CacheOptions, CacheStore } from './types';
+
+/**
+ * Default TTLs in milliseconds, keyed by client method name
+ * Methods not listed here are never cached
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  // Market definitions and cost adders change occasionally
+  getMarkets: 5 * 60 * 1000,
+  getMarketById: 5 * 60 * 1000,
+  getMarketByLegacyId: 5 * 60 * 1000,
+  getServiceableCounties: 5 * 60 * 1000,
+  getCostAdders: 5 * 60 * 1000,
+  lookupMarket: 5 * 60 * 1000,
+  // County economic data is refreshed in bulk, rarely
+  getCounties: 60 * 60 * 1000,
+  getCountiesByState: 60 * 60 * 1000,
+  getCountyByFips: 60 * 60 * 1000,
+  getHighRiskCounties: 60 * 60 * 1000,
+  getHighValueCounties: 60 * 60 * 1000,
+  getCountyStats: 60 * 60 * 1000,
+};
+
+/**
+ * In-memory LRU cache store (default)
+ *
+ * Values are cloned on the way in and out so callers can safely mutate
+ * the arrays and objects they receive.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Move to most-recently-used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { ...entry, value: structuredClone(entry.value) };
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, value: structuredClone(entry.value) });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache layer used by MarketServiceClient
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttls: Record<string, number>;
+  private readonly staleWhileRevalidateMs: number;
+  private revalidating = new Set<string>();
+  /** Bumped on every invalidation so loads that started earlier are not written back */
+  private generation = 0;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttl };
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs || 0;
+  }
+
+  /**
+   * TTL for a client method, or undefined if it should not be cached
+   */
+  ttlFor(operation: string): number | undefined {
+    const ttl = this.ttls[operation];
+    return ttl && ttl > 0 ? ttl : undefined;
+  }
+
+  /**
+   * Return a cached value or load it
+   * `load(true)` is used for background revalidation and must not be tied to the caller's signal
+   */
+  async read<T>(key: string, ttl: number, load: (background: boolean) => Promise<T>): Promise<T> {
+    const entry = await this.store.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age <= entry.ttl) {
+      return entry.value as T;
+    }
+
+    if (entry && age <= entry.ttl + this.staleWhileRevalidateMs) {
+      this.revalidate(key, ttl, load);
+      return entry.value as T;
+    }
+
+    const generation = this.generation;
+    const value = await load(false);
+    if (generation === this.generation) {
+      await this.store.set(key, { value, storedAt: Date.now(), ttl });
+    }
+    return value;
+  }
+
+  /**
+   * Return the stored entry for a key whatever its age, without loading
+   */
+  async peek(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Remove entries whose key starts with the given path prefix or matches the pattern
+   * Clears everything when called without a matcher
+   */
+  async invalidate(match?: string | RegExp): Promise<void> {
+    this.generation++;
+
+    if (match === undefined) {
+      await this.store.clear();
+      return;
+    }
+
+    const keys = await this.store.keys();
+    const matches = keys.filter((key) =>
+      typeof match === 'string' ? key.startsWith(match) : match.test(key)
+    );
+    await Promise.all(matches.map((key) => this.store.delete(key)));
+  }
+
+  private revalidate<T>(key: string, ttl: number, load: (background: boolean) => Promise<T>): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    const generation = this.generation;
+
+    load(true)
+      .then((value) => {
+        if (generation === this.generation) {
+          return this.store.set(key, { value, storedAt: Date.now(), ttl });
+        }
+      })
+      // Keep serving the stale entry; the next read after it expires will surface the error
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Circuit breaker
+ * Fails requests fast while the service is down and probes it before sending traffic again
+ */
+
+import {
+  CircuitBreakerOptions,
+  CircuitOpenError,
+  CircuitState,
+  MarketServiceError,
+  MarketServiceErrorContext,
+  NetworkError,
+} from './types';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+/**
+ * Whether an error means the service itself is unavailable
+ * Aborts and 4xx responses say nothing about service health
+ */
+function isOutage(error: unknown): error is MarketServiceError {
+  if (!(error instanceof MarketServiceError)) return false;
+  // Includes timeouts (TimeoutError extends NetworkError)
+  if (error instanceof NetworkError) return true;
+  return error.statusCode !== undefined && error.statusCode >= 500;
+}
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  /** Whether expired cache entries may answer reads while the circuit is open */
+  get serveCachedWhenOpen(): boolean {
+    return this.options.serveCachedWhenOpen !== false;
+  }
+
+  /**
+   * Current state; an open circuit whose reset timeout has passed reports `half-open`
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Let a request through or throw `CircuitOpenError`
+   * In the half-open state only one probe is in flight at a time; returns true for that probe
+   */
+  admit(context?: MarketServiceErrorContext): boolean {
+    const state = this.getState();
+    if (state === 'closed') return false;
+
+    if (state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    const waitMs = Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+    throw new CircuitOpenError(
+      state === 'open'
+        ? `Market Service circuit is open after ${this.consecutiveFailures} consecutive failures`
+        : 'Market Service circuit is half-open and a probe request is already in flight',
+      state,
+      Math.ceil(waitMs / 1000),
+      context
+    );
+  }
+
+  /**
+   * Record the outcome of an admitted request
+   * Pass the error when it failed. Aborts and errors that are not `MarketServiceError`s (e.g. a
+   * bug in middleware) say nothing about the service, so they free a probe slot without changing state
+   */
+  record(probe: boolean, error?: unknown): void {
+    if (probe) this.probeInFlight = false;
+
+    if (error !== undefined && (!(error instanceof MarketServiceError) || error.code === 'ABORTED')) return;
+
+    if (!isOutage(error)) {
+      this.consecutiveFailures = 0;
+      if (this.state !== 'closed') this.transition('closed');
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (probe || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open', error);
+    }
+  }
+
+  private transition(to: CircuitState, error?: MarketServiceError): void {
+    const from = this.state;
+    this.state = to;
+    this.options.onStateChange?.({ from, to, consecutiveFailures: this.consecutiveFailures, error });
+  }
+}
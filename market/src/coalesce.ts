@@ -0,0 +1,87 @@
+/**
+ * Request coalescing
+ * Concurrent identical idempotent requests share a single in-flight call
+ */
+
+import { MarketServiceError } from './types';
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export class RequestCoalescer {
+  private inflight = new Map<string, InFlight>();
+
+  /**
+   * Run `execute` for the key, or join the call already in flight for it
+   *
+   * The shared call is only aborted once every subscriber has aborted.
+   * Subscribers that join an existing call receive their own copy of the result.
+   */
+  run<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    execute: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    let entry = this.inflight.get(key);
+    // A call every subscriber has abandoned is already cancelled; start a fresh one
+    if (entry?.controller.signal.aborted) {
+      this.inflight.delete(key);
+      entry = undefined;
+    }
+    const joined = entry !== undefined;
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlight = { promise: Promise.resolve(), controller, subscribers: 0 };
+      created.promise = execute(controller.signal).finally(() => {
+        if (this.inflight.get(key) === created) {
+          this.inflight.delete(key);
+        }
+      });
+      // Subscribers attach their own handlers; this only keeps an all-aborted call from going unhandled
+      created.promise.catch(() => undefined);
+      this.inflight.set(key, created);
+      entry = created;
+    }
+
+    entry.subscribers++;
+    const result = this.subscribe(entry, signal) as Promise<T>;
+    return joined ? result.then((value) => structuredClone(value)) : result;
+  }
+
+  private subscribe(entry: InFlight, signal: AbortSignal | undefined): Promise<unknown> {
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        if (entry.subscribers === 0) {
+          entry.controller.abort();
+        }
+        reject(new MarketServiceError('Request was aborted', 'ABORTED'));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Cost adder selection and validation
+ * Which of a market's cost adders apply to a quote, and which of them conflict
+ */
+
+import {
+  CostAdder,
+  CostAdderIssue,
+  CostAdderPeriod,
+  CostAdderTimelineRange,
+  CostAdderValidationOptions,
+  CostAdderValidationReport,
+  DateField,
+  MarketServiceError,
+} from './types';
+
+const DEFAULT_MAX_FIXED = 100000;
+const DEFAULT_MAX_PER_SQUARE = 1000;
+
+export interface CostAdderFilter {
+  quoteType?: 'retail' | 'lom';
+  countyFips?: string;
+  /** Date the adders must be in effect on (default: now) */
+  asOf?: Date;
+}
+
+/**
+ * Parse an `asOf` value, rejecting dates that do not parse
+ */
+export function toAsOf(value: Date | string | undefined): Date {
+  const date = value === undefined ? new Date() : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new MarketServiceError(`Invalid asOf date: ${String(value)}`, 'INVALID_PRICING_INPUT');
+  }
+  return date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last instant an adder is in effect
+ * An expiration at UTC midnight is a calendar date and covers that whole UTC day, however it
+ * arrives (`2025-03-01`, `2025-03-01T00:00:00Z` or a hydrated Date), so the answer does not
+ * depend on `hydrateDates`
+ */
+function expiresAt(expiration: DateField): number {
+  const time = new Date(expiration).getTime();
+  return time % DAY_MS === 0 ? time + DAY_MS - 1 : time;
+}
+
+/**
+ * Whether an adder's effective/expiration dates cover `asOf`
+ * Both ends are inclusive; a missing date leaves that side open
+ */
+export function isInEffect<D extends DateField>(adder: CostAdder<D>, asOf: Date): boolean {
+  if (adder.effective_date && new Date(adder.effective_date) > asOf) return false;
+  if (adder.expiration_date && expiresAt(adder.expiration_date) < asOf.getTime()) return false;
+  return true;
+}
+
+/**
+ * Whether an adder applies: active, matching the quote type and county, and in effect on `asOf`
+ * Adders without a county apply to every county
+ */
+export function isCostAdderApplicable<D extends DateField>(
+  adder: CostAdder<D>,
+  filter: CostAdderFilter = {}
+): boolean {
+  // Filter by active status
+  if (!adder.active) return false;
+
+  // Filter by quote type
+  if (filter.quoteType === 'retail' && !adder.applies_to_retail) return false;
+  if (filter.quoteType === 'lom' && !adder.applies_to_lom) return false;
+
+  // Filter by county
+  if (filter.countyFips && adder.county_fips && adder.county_fips !== filter.countyFips) {
+    return false;
+  }
+
+  // Filter by effective/expiration dates
+  return isInEffect(adder, filter.asOf || new Date());
+}
+
+/**
+ * Split a date range into periods during which the same adders apply
+ *
+ * The applicable set can only change when an adder takes effect or just after one expires,
+ * so those instants are the period boundaries. Neighbouring periods with the same adders
+ * are merged.
+ */
+export function buildCostAdderTimeline<D extends DateField>(
+  costAdders: CostAdder<D>[],
+  range: CostAdderTimelineRange,
+  filter: Omit<CostAdderFilter, 'asOf'> = {}
+): CostAdderPeriod<D>[] {
+  const from = toAsOf(range.from).getTime();
+  // Like an expiration date, a `to` at UTC midnight is a calendar date and covers that whole day
+  const to = expiresAt(toAsOf(range.to));
+  if (from > to) {
+    throw new MarketServiceError(
+      `Timeline range starts after it ends: ${new Date(from).toISOString()} > ${new Date(to).toISOString()}`,
+      'INVALID_DATE_RANGE'
+    );
+  }
+
+  const boundaries = new Set<number>([from]);
+  for (const adder of costAdders) {
+    if (adder.effective_date) boundaries.add(new Date(adder.effective_date).getTime());
+    if (adder.expiration_date) boundaries.add(expiresAt(adder.expiration_date) + 1);
+  }
+  const starts = Array.from(boundaries)
+    .filter((time) => time >= from && time <= to)
+    .sort((a, b) => a - b);
+
+  const periods: CostAdderPeriod<D>[] = [];
+  starts.forEach((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] - 1 : to;
+    const applicable = costAdders.filter((adder) =>
+      isCostAdderApplicable(adder, { ...filter, asOf: new Date(start) })
+    );
+
+    const previous = periods[periods.length - 1];
+    if (previous && sameAdders(previous.costAdders, applicable)) {
+      previous.to = new Date(end);
+    } else {
+      periods.push({ from: new Date(start), to: new Date(end), costAdders: applicable });
+    }
+  });
+  return periods;
+}
+
+function sameAdders<D extends DateField>(a: CostAdder<D>[], b: CostAdder<D>[]): boolean {
+  return a.length === b.length && a.every((adder, index) => adder.id === b[index].id);
+}
+
+/** Inclusive time window an adder is in effect for */
+function windowOf<D extends DateField>(adder: CostAdder<D>): { start: number; end: number } {
+  return {
+    start: adder.effective_date ? new Date(adder.effective_date).getTime() : -Infinity,
+    end: adder.expiration_date ? expiresAt(adder.expiration_date) : Infinity,
+  };
+}
+
+function describe<D extends DateField>(adder: CostAdder<D>): string {
+  return `"${adder.adder_name}" (${adder.id})`;
+}
+
+/**
+ * Find adders that would double-charge or misprice a quote
+ *
+ * Conflicts are only looked for between active adders with the same name (ignoring case and
+ * spacing) that share a quote type and whose dates overlap. Value and date checks cover every adder.
+ *
+ * @example
+ * const report = validateCostAdders(await client.getCostAdders(marketId), {
+ *   serviceableCounties: market.serviceable_counties,
+ * });
+ * if (!report.valid) console.table(report.issues);
+ */
+export function validateCostAdders<D extends DateField>(
+  costAdders: CostAdder<D>[],
+  options: CostAdderValidationOptions = {}
+): CostAdderValidationReport {
+  const issues: CostAdderIssue[] = [];
+  const maxFixed = options.limits?.maxFixed ?? DEFAULT_MAX_FIXED;
+  const maxPerSquare = options.limits?.maxPerSquare ?? DEFAULT_MAX_PER_SQUARE;
+  const serviceable = options.serviceableCounties
+    ? new Set(
+        options.serviceableCounties.map((county) => (typeof county === 'string' ? county : county.county_fips))
+      )
+    : null;
+
+  for (const adder of costAdders) {
+    if (adder.cost_value < 0) {
+      issues.push({
+        code: 'NEGATIVE_VALUE',
+        severity: 'warning',
+        message: `${describe(adder)} has a negative cost_value (${adder.cost_value})`,
+        adderIds: [adder.id],
+      });
+    }
+
+    const limit =
+      adder.adder_type === 'percentage' ? 100 : adder.adder_type === 'per_square' ? maxPerSquare : maxFixed;
+    if (adder.cost_value > limit) {
+      issues.push({
+        code: 'VALUE_OUT_OF_RANGE',
+        severity: adder.adder_type === 'percentage' ? 'error' : 'warning',
+        message: `${describe(adder)} has a ${adder.adder_type} cost_value of ${adder.cost_value}, above ${limit}`,
+        adderIds: [adder.id],
+      });
+    }
+
+    const window = windowOf(adder);
+    if (window.start > window.end) {
+      issues.push({
+        code: 'INVERTED_DATES',
+        severity: 'error',
+        message: `${describe(adder)} expires before it takes effect`,
+        adderIds: [adder.id],
+      });
+    }
+
+    if (serviceable && adder.county_fips && !serviceable.has(adder.county_fips)) {
+      issues.push({
+        code: 'COUNTY_NOT_SERVICEABLE',
+        severity: 'error',
+        message: `${describe(adder)} is for county ${adder.county_fips}, which the market does not serve`,
+        adderIds: [adder.id],
+      });
+    }
+  }
+
+  const active = costAdders.filter((adder) => adder.active);
+  const nameOf = (adder: CostAdder<D>) => adder.adder_name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      const a = active[i];
+      const b = active[j];
+      if (nameOf(a) !== nameOf(b)) continue;
+      if (!((a.applies_to_retail && b.applies_to_retail) || (a.applies_to_lom && b.applies_to_lom))) continue;
+
+      const windowA = windowOf(a);
+      const windowB = windowOf(b);
+      if (windowA.start > windowB.end || windowB.start > windowA.end) continue;
+
+      const adderIds = [a.id, b.id];
+      if ((a.county_fips || '') === (b.county_fips || '')) {
+        const sameDates = windowA.start === windowB.start && windowA.end === windowB.end;
+        issues.push({
+          code: sameDates ? 'DUPLICATE_ADDER' : 'OVERLAPPING_DATES',
+          severity: 'error',
+          message: sameDates
+            ? `${describe(a)} and ${describe(b)} are duplicates`
+            : `${describe(a)} and ${describe(b)} are both in effect for part of their dates`,
+          adderIds,
+        });
+      } else if (!a.county_fips || !b.county_fips) {
+        const [county, marketWide] = a.county_fips ? [a, b] : [b, a];
+        issues.push({
+          code: 'COUNTY_SHADOWS_MARKET',
+          severity: 'error',
+          message:
+            `${describe(county)} for county ${county.county_fips} overlaps market-wide ${describe(marketWide)}; ` +
+            'quotes in that county are charged both',
+          adderIds: [county.id, marketWide.id],
+        });
+      }
+    }
+  }
+
+  return { valid: !issues.some((issue) => issue.severity === 'error'), issues };
+}
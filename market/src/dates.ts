@@ -0,0 +1,80 @@
+/**
+ * Date handling
+ * Hydration of timestamp fields in responses and consistent serialization in requests
+ */
+
+import { MarketServiceError } from './types';
+
+/** Response fields that hold dates or timestamps */
+const DATE_FIELDS = new Set(['created_at', 'updated_at', 'effective_date', 'expiration_date']);
+
+/** Request fields that are calendar dates rather than timestamps */
+const DATE_ONLY_FIELDS = new Set(['effective_date', 'expiration_date']);
+
+/**
+ * Format a date as a UTC calendar date (YYYY-MM-DD)
+ *
+ * `YYYY-MM-DD` strings pass through. Dates and timestamp strings must fall on UTC midnight, as
+ * hydrated dates do: any other instant is a different calendar day depending on the time zone,
+ * so it is rejected rather than sent as the wrong day. Unparseable strings are passed through
+ * for the service to reject.
+ */
+export function toISODate(value: Date | string, field = 'date'): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+
+  const iso = date.toISOString();
+  if (!iso.endsWith('T00:00:00.000Z')) {
+    throw new MarketServiceError(
+      `${field} must be a calendar date: a 'YYYY-MM-DD' string or a Date at UTC midnight ` +
+        `(new Date(Date.UTC(2025, 2, 1))), received ${iso}`,
+      'INVALID_DATE'
+    );
+  }
+  return iso.slice(0, 10);
+}
+
+/**
+ * Convert date fields to Date objects, recursively
+ * Returns a new structure; the input is not modified
+ */
+export function hydrateDates<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => hydrateDates(item)) as unknown as T;
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (DATE_FIELDS.has(key) && typeof field === 'string') {
+      const date = new Date(field);
+      result[key] = Number.isNaN(date.getTime()) ? field : date;
+    } else {
+      result[key] = hydrateDates(field);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Serialize calendar-date fields of a request body as YYYY-MM-DD
+ * Other Date values keep the default JSON encoding (full ISO timestamp)
+ */
+export function serializeRequestDates<T>(data: T): T {
+  if (!data || typeof data !== 'object' || Array.isArray(data) || data instanceof Date) {
+    return data;
+  }
+
+  const result = { ...data } as Record<string, unknown>;
+  for (const key of Object.keys(result)) {
+    const field = result[key];
+    if (DATE_ONLY_FIELDS.has(key) && (field instanceof Date || typeof field === 'string')) {
+      result[key] = toISODate(field, key);
+    }
+  }
+  return result as T;
+}
@@ -0,0 +1,173 @@
+/**
+ * Environments and endpoint failover
+ * Named environments map to one or more base URLs; a client fails over between them in order
+ */
+
+import {
+  EndpointChangeEvent,
+  EnvironmentDefinition,
+  EnvironmentName,
+  MarketServiceConfig,
+  MarketServiceError,
+  SERVICE_URLS,
+} from './types';
+
+const DEFAULT_RECOVERY_INTERVAL_MS = 30000;
+
+const environments = new Map<string, EnvironmentDefinition>([
+  ['development', { endpoints: [SERVICE_URLS.development] }],
+  ['staging', { endpoints: [SERVICE_URLS.staging] }],
+  ['production', { endpoints: [SERVICE_URLS.production], production: true }],
+]);
+
+/**
+ * Add a named environment, or replace an existing one
+ * Clients created afterwards can use it as `environment`
+ *
+ * @example
+ * registerEnvironment('local-docker', 'http://market-service:3002');
+ * registerEnvironment('production', {
+ *   endpoints: ['https://market-service.dripedge.io', 'https://market-service-dr.dripedge.io'],
+ *   production: true,
+ * });
+ */
+export function registerEnvironment(
+  name: string,
+  definition: string | string[] | EnvironmentDefinition
+): void {
+  const resolved: EnvironmentDefinition =
+    typeof definition === 'string' || Array.isArray(definition)
+      ? { endpoints: ([] as string[]).concat(definition) }
+      : { ...definition, endpoints: [...definition.endpoints] };
+
+  if (resolved.endpoints.length === 0) {
+    throw new MarketServiceError(
+      `Environment "${name}" needs at least one endpoint`,
+      'INVALID_ENVIRONMENT'
+    );
+  }
+  environments.set(name, resolved);
+}
+
+/**
+ * Look up a built-in or registered environment
+ */
+export function getEnvironment(name: EnvironmentName): EnvironmentDefinition | undefined {
+  return environments.get(name);
+}
+
+/**
+ * Whether an environment expects production (`mk_live_`) keys
+ */
+export function isProductionEnvironment(name: EnvironmentName): boolean {
+  return environments.get(name)?.production === true;
+}
+
+/**
+ * Resolve the endpoints a client connects to, primary first
+ * Priority: baseURL > environment > default (development)
+ */
+export function resolveEndpoints(config: MarketServiceConfig): string[] {
+  // Custom baseURL takes priority
+  if (config.baseURL && config.baseURL.length > 0) {
+    return ([] as string[]).concat(config.baseURL);
+  }
+
+  const name = config.environment || 'development';
+  const environment = environments.get(name);
+  if (!environment) {
+    throw new MarketServiceError(
+      `Unknown environment "${name}". Register it with registerEnvironment() or pass a baseURL.`,
+      'UNKNOWN_ENVIRONMENT'
+    );
+  }
+  return [...environment.endpoints];
+}
+
+/**
+ * Tracks which of a client's endpoints is active
+ *
+ * Requests go to the active endpoint. A failure moves every later request to the next
+ * endpoint; while the primary is not active, it is health-checked at most once per
+ * recovery interval and restored as soon as it answers.
+ */
+export class EndpointPool {
+  private active = 0;
+  private lastRecoveryCheck = 0;
+  private checking = false;
+  private readonly recoveryIntervalMs: number;
+
+  constructor(
+    public readonly endpoints: readonly string[],
+    private readonly options: {
+      recoveryIntervalMs?: number;
+      onEndpointChange?: (event: EndpointChangeEvent) => void;
+    } = {}
+  ) {
+    this.recoveryIntervalMs = options.recoveryIntervalMs ?? DEFAULT_RECOVERY_INTERVAL_MS;
+  }
+
+  /** The endpoint requests are currently sent to */
+  get current(): string {
+    return this.endpoints[this.active];
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  has(endpoint: string): boolean {
+    return this.endpoints.includes(endpoint);
+  }
+
+  /**
+   * Move off a failed endpoint and return the one to try next
+   * A failure reported for an endpoint that is no longer active (a concurrent request
+   * already failed over) leaves the pool as it is.
+   */
+  failOver(failed: string, error: MarketServiceError): string {
+    if (this.current === failed) {
+      this.active = (this.active + 1) % this.endpoints.length;
+      // Give the primary a full interval before the first recovery check
+      if (this.endpoints.indexOf(failed) === 0) this.lastRecoveryCheck = Date.now();
+      this.emit({ from: failed, to: this.current, reason: 'failover', error });
+    }
+    return this.current;
+  }
+
+  /**
+   * Health-check the primary in the background if it is due
+   * `probe` resolves true when the primary is serving again
+   */
+  checkPrimary(probe: (endpoint: string) => Promise<boolean>): void {
+    if (
+      this.active === 0 ||
+      this.checking ||
+      Date.now() - this.lastRecoveryCheck < this.recoveryIntervalMs
+    ) {
+      return;
+    }
+
+    this.checking = true;
+    this.lastRecoveryCheck = Date.now();
+    const primary = this.endpoints[0];
+    probe(primary)
+      .then(
+        (healthy) => {
+          if (!healthy || this.active === 0) return;
+          const from = this.current;
+          this.active = 0;
+          this.emit({ from, to: primary, reason: 'recovered' });
+        },
+        () => undefined
+      )
+      .finally(() => {
+        this.checking = false;
+      })
+      .catch(() => undefined);
+  }
+
+  private emit(event: EndpointChangeEvent): void {
+    this.options.onEndpointChange?.(event);
+  }
+}
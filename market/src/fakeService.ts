@@ -0,0 +1,774 @@
+/**
+ * In-memory Market Service
+ * Emulates the service's endpoints for offline tests and stories (see FakeMarketServiceClient)
+ */
+
+import {
+  Market,
+  CostAdder,
+  CountyData,
+  CountyStats,
+  PermitHistory,
+  PermitHistorySummary,
+  StateTrends,
+  TopCountyByPermits,
+  FeatureAccessResult,
+  MarketLookupResponse,
+  ValidationFieldError,
+  FakeMarketServiceSeed,
+  FakeErrorOptions,
+  FakeServiceCall,
+  NetworkError,
+  TimeoutError,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from './types';
+import { sleep, throwIfAborted } from './retry';
+
+/** Records as they would arrive over the wire (dates as ISO strings) */
+type StoredMarket = Market<string>;
+type StoredCostAdder = CostAdder<string>;
+type StoredCounty = CountyData<string>;
+
+interface Reply {
+  status: number;
+  /** Sent as-is; use `ok`/`fail` for the usual envelope */
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: TransportRequest['method'];
+  pattern: RegExp;
+  handle: (args: string[], request: TransportRequest) => Reply;
+}
+
+interface InjectedFailure {
+  code: string;
+  options: FakeErrorOptions;
+  remaining: number;
+}
+
+/**
+ * HTTP status the service uses for each error code
+ */
+const STATUS_BY_CODE: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_API_KEY: 401,
+  EXPIRED_API_KEY: 401,
+  MISSING_API_KEY: 401,
+  INVALID_JWT: 401,
+  EXPIRED_JWT: 401,
+  MISSING_JWT: 401,
+  INSUFFICIENT_PERMISSIONS: 403,
+  FEATURE_NOT_AVAILABLE: 403,
+  PREMIUM_REQUIRED: 403,
+  UPGRADE_REQUIRED: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
+};
+
+const ADDER_TYPES = ['percentage', 'fixed', 'per_square'];
+const MARKET_TYPES = ['state', 'metro', 'custom'];
+
+function ok(data: unknown, extra: Record<string, unknown> = {}, status: number = 200): Reply {
+  return { status, body: { status: 'success', data: wire(data), ...extra } };
+}
+
+function fail(status: number, code: string, message: string, extra: Record<string, unknown> = {}): Reply {
+  return { status, body: { status: 'error', error: message, errorCode: code, ...extra } };
+}
+
+function invalid(details: ValidationFieldError[]): Reply {
+  return fail(400, 'VALIDATION_ERROR', 'Validation failed', { details });
+}
+
+/** Copy through JSON, as the real service would serialize it */
+function wire<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function param(params: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = params?.[name];
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function numberParam(params: Record<string, unknown> | undefined, name: string): number | undefined {
+  const value = param(params, name);
+  return value === undefined ? undefined : Number(value);
+}
+
+function bodyOf(request: TransportRequest): Record<string, unknown> {
+  return request.body && typeof request.body === 'object' ? (request.body as Record<string, unknown>) : {};
+}
+
+function stringField(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** `county_fips_list` of a bulk request, ignoring anything that is not a FIPS string */
+function fipsList(request: TransportRequest): string[] {
+  const list = bodyOf(request).county_fips_list;
+  return Array.isArray(list) ? list.filter((fips): fips is string => typeof fips === 'string') : [];
+}
+
+function trendOf(values: number[]): 'increasing' | 'decreasing' | 'stable' {
+  if (values.length < 2 || !values[0]) return 'stable';
+  const change = (values[values.length - 1] - values[0]) / values[0];
+  if (change > 0.05) return 'increasing';
+  if (change < -0.05) return 'decreasing';
+  return 'stable';
+}
+
+function yoyChange(current: number, previous: number | undefined): number | undefined {
+  if (!previous) return undefined;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+function average(values: Array<number | undefined>): number {
+  const known = values.filter((value): value is number => typeof value === 'number');
+  return known.length ? Math.round((known.reduce((a, b) => a + b, 0) / known.length) * 100) / 100 : 0;
+}
+
+function sum(values: Array<number | undefined>): number {
+  return values.reduce<number>((total, value) => total + (value || 0), 0);
+}
+
+export class InMemoryMarketService {
+  /** Every call received, oldest first */
+  readonly calls: FakeServiceCall[] = [];
+
+  private markets = new Map<string, StoredMarket>();
+  private costAdders = new Map<string, StoredCostAdder>();
+  private counties = new Map<string, StoredCounty>();
+  private permits: PermitHistory[] = [];
+  private zipCodes: Record<string, string> = {};
+  private permitAccess: FeatureAccessResult = { has_access: true, access_level: 'full' };
+  private failures: InjectedFailure[] = [];
+  /** Stored replies for creates, keyed by `Idempotency-Key` */
+  private idempotentReplies = new Map<string, Reply>();
+  private nextId = 1;
+  private nextLegacyId = 1;
+  private readonly routes: Route[] = this.buildRoutes();
+
+  constructor(seed?: FakeMarketServiceSeed, private readonly latencyMs: number = 0) {
+    if (seed) this.seed(seed);
+  }
+
+  /**
+   * Add data to the store; records with an existing ID replace the old one
+   */
+  seed(data: FakeMarketServiceSeed): void {
+    data.markets?.forEach((market) => this.saveMarket(market));
+    data.costAdders?.forEach((adder) => this.saveCostAdder(adder));
+    data.counties?.forEach((county) => this.counties.set(county.county_fips, wire(county) as StoredCounty));
+    if (data.permits) this.permits.push(...wire(data.permits));
+    if (data.zipCodes) Object.assign(this.zipCodes, data.zipCodes);
+    if (data.permitAccess) this.permitAccess = wire(data.permitAccess);
+  }
+
+  /**
+   * Remove all data, injected errors and recorded calls
+   */
+  reset(): void {
+    this.markets.clear();
+    this.costAdders.clear();
+    this.counties.clear();
+    this.permits = [];
+    this.zipCodes = {};
+    this.permitAccess = { has_access: true, access_level: 'full' };
+    this.failures = [];
+    this.idempotentReplies.clear();
+    this.calls.length = 0;
+    this.nextId = 1;
+    this.nextLegacyId = 1;
+  }
+
+  /**
+   * Make upcoming calls fail with the given service error code
+   * `NETWORK_ERROR` and `TIMEOUT` fail without a response
+   *
+   * @example
+   * service.failNext('RATE_LIMITED', { retryAfter: 2 });
+   * service.failNext('EXPIRED_JWT', { operation: 'lookupMarket' });
+   */
+  failNext(code: string, options: FakeErrorOptions = {}): void {
+    this.failures.push({ code, options, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Drop injected errors that have not fired yet
+   */
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Transport that serves requests from the store
+   */
+  readonly handle: Transport = async (request) => {
+    this.calls.push({
+      operation: request.operation,
+      method: request.method,
+      path: request.path,
+      params: wire(request.params),
+      body: wire(request.body),
+      headers: { ...request.headers },
+    });
+
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs, request.signal);
+    }
+    throwIfAborted(request.signal);
+
+    const reply = this.injectedFailure(request) || this.idempotentRoute(request);
+    return { status: reply.status, headers: reply.headers || {}, body: reply.body } as TransportResponse;
+  };
+
+  private route(request: TransportRequest): Reply {
+    const path = request.path.split('?')[0];
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = route.pattern.exec(path);
+      if (match) {
+        return route.handle(match.slice(1).map(decodeURIComponent), request);
+      }
+    }
+    return fail(404, 'NOT_FOUND', `No route for ${request.method} ${path}`);
+  }
+
+  /**
+   * Route a request, answering repeated creates with the stored reply for their `Idempotency-Key`
+   */
+  private idempotentRoute(request: TransportRequest): Reply {
+    const header = Object.keys(request.headers).find((name) => name.toLowerCase() === 'idempotency-key');
+    const key = header && request.method === 'POST' ? request.headers[header] : undefined;
+    if (!key) return this.route(request);
+
+    const stored = this.idempotentReplies.get(key);
+    if (stored) {
+      return { ...stored, headers: { ...stored.headers, 'idempotent-replayed': 'true' } };
+    }
+
+    const reply = this.route(request);
+    if (reply.status >= 200 && reply.status < 300) {
+      this.idempotentReplies.set(key, reply);
+    }
+    return reply;
+  }
+
+  private injectedFailure(request: TransportRequest): Reply | undefined {
+    const failure = this.failures.find(
+      (entry) => !entry.options.operation || entry.options.operation === request.operation
+    );
+    if (!failure) return undefined;
+
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+
+    const { code, options } = failure;
+    const message = options.message || `Injected ${code}`;
+    const context = { method: request.method, path: request.path };
+
+    if (code === 'NETWORK_ERROR') throw new NetworkError(message, code, context);
+    if (code === 'TIMEOUT') throw new TimeoutError(message, request.timeout, context);
+
+    const reply = fail(options.status || STATUS_BY_CODE[code] || 500, code, message);
+    if (options.retryAfter !== undefined) {
+      reply.headers = { 'retry-after': String(options.retryAfter) };
+    }
+    return reply;
+  }
+
+  private generateId(): string {
+    return `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`;
+  }
+
+  private saveMarket(data: Partial<Market>): StoredMarket {
+    const now = new Date().toISOString();
+    const market = wire({
+      id: this.generateId(),
+      name: `Market ${this.markets.size + 1}`,
+      market_type: 'custom',
+      brand_id: 1,
+      client_id: 1,
+      serviceable_counties: [],
+      active: true,
+      created_at: now,
+      updated_at: now,
+      ...data,
+      legacy_id: data.legacy_id ?? this.nextLegacyId,
+    }) as StoredMarket;
+
+    this.nextLegacyId = Math.max(this.nextLegacyId, (market.legacy_id || 0) + 1);
+    this.markets.set(market.id, market);
+    return market;
+  }
+
+  private saveCostAdder(data: Partial<CostAdder> & { market_id: string }): StoredCostAdder {
+    const now = new Date().toISOString();
+    const adder = wire({
+      id: this.generateId(),
+      adder_name: 'Cost adder',
+      adder_type: 'fixed',
+      cost_value: 0,
+      applies_to_retail: true,
+      applies_to_lom: true,
+      display_on_proposal: false,
+      active: true,
+      created_at: now,
+      updated_at: now,
+      ...data,
+    }) as StoredCostAdder;
+
+    this.costAdders.set(adder.id, adder);
+    return adder;
+  }
+
+  private stateOf(countyFips: string): string | undefined {
+    const county = this.counties.get(countyFips);
+    if (county) return county.state_code;
+    for (const market of this.markets.values()) {
+      const match = market.serviceable_counties?.find((c) => c.county_fips === countyFips);
+      if (match) return match.state_code;
+    }
+    return undefined;
+  }
+
+  private premiumGate(): Reply | undefined {
+    if (this.permitAccess.has_access) return undefined;
+    return fail(403, 'FEATURE_NOT_AVAILABLE', 'Permit history is not included in your plan', {
+      upgrade_message: this.permitAccess.upgrade_message || 'Upgrade to access permit history',
+    });
+  }
+
+  // ============================================
+  // ROUTES
+  // ============================================
+
+  private buildRoutes(): Route[] {
+    return [
+      { method: 'GET', pattern: /^\/health$/, handle: () => this.health() },
+
+      { method: 'GET', pattern: /^\/api\/markets$/, handle: (_, req) => this.listMarkets(req) },
+      { method: 'POST', pattern: /^\/api\/markets$/, handle: (_, req) => this.createMarket(req) },
+      { method: 'POST', pattern: /^\/api\/markets\/lookup$/, handle: (_, req) => this.lookupMarket(req) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/markets\/by-legacy-id\/([^/]+)$/,
+        handle: ([legacyId]) => this.getMarketByLegacyId(legacyId),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/markets\/([^/]+)\/serviceable-counties$/,
+        handle: ([id]) => this.withMarket(id, (market) => ok(market.serviceable_counties || [])),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/markets\/([^/]+)\/cost-adders$/,
+        handle: ([id]) => this.withMarket(id, (market) => ok(this.costAddersFor(market.id))),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/markets\/([^/]+)\/cost-adders$/,
+        handle: ([id], req) => this.withMarket(id, (market) => this.createCostAdder(market, req)),
+      },
+      { method: 'GET', pattern: /^\/api\/markets\/([^/]+)$/, handle: ([id]) => this.withMarket(id, ok) },
+      { method: 'PUT', pattern: /^\/api\/markets\/([^/]+)$/, handle: ([id], req) => this.updateMarket(id, req) },
+      { method: 'DELETE', pattern: /^\/api\/markets\/([^/]+)$/, handle: ([id]) => this.deleteMarket(id) },
+
+      { method: 'PUT', pattern: /^\/api\/cost-adders\/([^/]+)$/, handle: ([id], req) => this.updateCostAdder(id, req) },
+      { method: 'DELETE', pattern: /^\/api\/cost-adders\/([^/]+)$/, handle: ([id]) => this.deleteCostAdder(id) },
+
+      { method: 'GET', pattern: /^\/api\/counties$/, handle: (_, req) => this.listCounties(req) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/counties\/by-state\/([^/]+)$/,
+        handle: ([state]) => ok(this.countiesIn(state)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/counties\/high-risk$/,
+        handle: (_, req) => this.rankCounties(req, 'hail_risk_score'),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/counties\/high-value$/,
+        handle: (_, req) => this.rankCounties(req, 'avg_home_value'),
+      },
+      { method: 'POST', pattern: /^\/api\/counties\/stats$/, handle: (_, req) => this.countyStats(req) },
+      { method: 'GET', pattern: /^\/api\/counties\/([^/]+)$/, handle: ([fips]) => this.getCounty(fips) },
+
+      { method: 'GET', pattern: /^\/api\/permits\/access$/, handle: () => ok(this.permitAccess) },
+      {
+        method: 'GET',
+        pattern: /^\/api\/permits\/county\/([^/]+)$/,
+        handle: ([fips], req) => this.premiumGate() || this.permitHistory(fips, req),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/permits\/summary$/,
+        handle: (_, req) => this.premiumGate() || this.permitSummary(req),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/permits\/top-counties$/,
+        handle: (_, req) => this.premiumGate() || this.topCounties(req),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/permits\/state\/([^/]+)$/,
+        handle: ([state], req) => this.premiumGate() || this.stateTrends(state, req),
+      },
+    ];
+  }
+
+  private health(): Reply {
+    return {
+      status: 200,
+      body: {
+        status: 'healthy',
+        service: 'market-service (fake)',
+        version: 'fake',
+        timestamp: new Date().toISOString(),
+        authenticated: true,
+      },
+    };
+  }
+
+  // ============================================
+  // MARKETS
+  // ============================================
+
+  private withMarket(id: string, handle: (market: StoredMarket) => Reply): Reply {
+    const market = this.markets.get(id);
+    return market ? handle(market) : fail(404, 'NOT_FOUND', 'Market not found');
+  }
+
+  private listMarkets(request: TransportRequest): Reply {
+    const clientId = param(request.params, 'client_id');
+    const brandId = param(request.params, 'brand_id');
+    const active = param(request.params, 'active');
+
+    const markets = Array.from(this.markets.values()).filter(
+      (market) =>
+        (clientId === undefined || String(market.client_id) === clientId) &&
+        (brandId === undefined || String(market.brand_id) === brandId) &&
+        (active === undefined || String(market.active) === active)
+    );
+    return ok(markets, { count: markets.length });
+  }
+
+  private getMarketByLegacyId(legacyId: string): Reply {
+    const market = Array.from(this.markets.values()).find((m) => String(m.legacy_id) === legacyId);
+    return market ? ok(market) : fail(404, 'NOT_FOUND', 'Market not found');
+  }
+
+  private createMarket(request: TransportRequest): Reply {
+    const body = bodyOf(request);
+    const details: ValidationFieldError[] = [];
+    if (!body.name) details.push({ field: 'name', message: 'name is required' });
+    if (!MARKET_TYPES.includes(String(body.market_type))) {
+      details.push({ field: 'market_type', message: `market_type must be one of ${MARKET_TYPES.join(', ')}` });
+    }
+    if (typeof body.brand_id !== 'number') details.push({ field: 'brand_id', message: 'brand_id is required' });
+    if (typeof body.client_id !== 'number') details.push({ field: 'client_id', message: 'client_id is required' });
+    if (details.length) return invalid(details);
+
+    const { id: _id, legacy_id: _legacyId, created_at: _created, updated_at: _updated, ...fields } = body;
+    return ok(this.saveMarket({ ...(fields as Partial<Market>), active: true }), {}, 201);
+  }
+
+  private updateMarket(id: string, request: TransportRequest): Reply {
+    return this.withMarket(id, (market) => {
+      const { id: _id, legacy_id: _legacyId, created_at: _created, updated_at: _updated, ...fields } =
+        bodyOf(request);
+      const updated = wire({ ...market, ...fields, updated_at: new Date().toISOString() });
+      this.markets.set(id, updated);
+      return ok(updated);
+    });
+  }
+
+  /** Deletes are soft: the market stays readable by ID but is inactive */
+  private deleteMarket(id: string): Reply {
+    return this.withMarket(id, (market) => {
+      this.markets.set(id, { ...market, active: false, updated_at: new Date().toISOString() });
+      return ok(undefined, { message: 'Market deleted' });
+    });
+  }
+
+  private lookupMarket(request: TransportRequest): Reply {
+    const body = bodyOf(request);
+    const markets = Array.from(this.markets.values()).filter(
+      (market) => market.active && String(market.brand_id) === String(body.brand_id)
+    );
+    const zip = stringField(body, 'zip');
+
+    // Metro and custom markets are more specific than a state-wide market covering the same county
+    const byCounty = (countyFips: string) =>
+      markets
+        .filter((market) => market.serviceable_counties?.some((c) => c.county_fips === countyFips))
+        .sort((a, b) => Number(a.market_type === 'state') - Number(b.market_type === 'state'))[0];
+
+    let market: StoredMarket | undefined;
+    let matchedBy: MarketLookupResponse['matched_by'] = 'none';
+    let countyFips = stringField(body, 'county_fips');
+
+    if (countyFips) {
+      market = byCounty(countyFips);
+      if (market) matchedBy = 'county';
+    }
+    if (!market && zip && this.zipCodes[zip]) {
+      countyFips = countyFips || this.zipCodes[zip];
+      market = byCounty(this.zipCodes[zip]);
+      if (market) matchedBy = 'zip';
+    }
+    if (!market) {
+      const state = stringField(body, 'state_code') || (countyFips && this.stateOf(countyFips));
+      market = state
+        ? markets.find((m) => m.market_type === 'state' && m.state_code?.toUpperCase() === state.toUpperCase())
+        : undefined;
+      if (market) matchedBy = 'state';
+    }
+
+    const costAdders = market
+      ? this.costAddersFor(market.id).filter(
+          (adder) => adder.active && (!adder.county_fips || adder.county_fips === countyFips)
+        )
+      : [];
+
+    return ok({ market: market || null, cost_adders: costAdders, matched_by: matchedBy });
+  }
+
+  // ============================================
+  // COST ADDERS
+  // ============================================
+
+  private costAddersFor(marketId: string): StoredCostAdder[] {
+    return Array.from(this.costAdders.values()).filter((adder) => adder.market_id === marketId);
+  }
+
+  private validateCostAdder(fields: Record<string, unknown>, partial: boolean): ValidationFieldError[] {
+    const details: ValidationFieldError[] = [];
+    if (!partial || 'adder_name' in fields) {
+      if (!fields.adder_name) details.push({ field: 'adder_name', message: 'adder_name is required' });
+    }
+    if (!partial || 'adder_type' in fields) {
+      if (!ADDER_TYPES.includes(String(fields.adder_type))) {
+        details.push({ field: 'adder_type', message: `adder_type must be one of ${ADDER_TYPES.join(', ')}` });
+      }
+    }
+    if (!partial || 'cost_value' in fields) {
+      if (typeof fields.cost_value !== 'number' || !Number.isFinite(fields.cost_value)) {
+        details.push({ field: 'cost_value', message: 'cost_value must be a number' });
+      }
+    }
+    return details;
+  }
+
+  private createCostAdder(market: StoredMarket, request: TransportRequest): Reply {
+    const { id: _id, created_at: _created, updated_at: _updated, ...fields } = bodyOf(request);
+    const details = this.validateCostAdder(fields, false);
+    if (details.length) return invalid(details);
+
+    const adder = this.saveCostAdder({ ...(fields as Partial<CostAdder>), market_id: market.id, active: true });
+    return ok(adder, {}, 201);
+  }
+
+  private updateCostAdder(id: string, request: TransportRequest): Reply {
+    const adder = this.costAdders.get(id);
+    if (!adder) return fail(404, 'NOT_FOUND', 'Cost adder not found');
+
+    const { id: _id, market_id: _marketId, created_at: _created, updated_at: _updated, ...fields } =
+      bodyOf(request);
+    const details = this.validateCostAdder(fields, true);
+    if (details.length) return invalid(details);
+
+    const updated = wire({ ...adder, ...fields, updated_at: new Date().toISOString() });
+    this.costAdders.set(id, updated);
+    return ok(updated);
+  }
+
+  /** Deletes are soft: the adder is kept but marked inactive */
+  private deleteCostAdder(id: string): Reply {
+    const adder = this.costAdders.get(id);
+    if (!adder) return fail(404, 'NOT_FOUND', 'Cost adder not found');
+
+    this.costAdders.set(id, { ...adder, active: false, updated_at: new Date().toISOString() });
+    return ok(undefined, { message: 'Cost adder deleted' });
+  }
+
+  // ============================================
+  // COUNTIES
+  // ============================================
+
+  private countiesIn(stateCode: string): StoredCounty[] {
+    return Array.from(this.counties.values()).filter(
+      (county) => county.state_code.toUpperCase() === stateCode.toUpperCase()
+    );
+  }
+
+  private getCounty(countyFips: string): Reply {
+    const county = this.counties.get(countyFips);
+    return county ? ok(county) : fail(404, 'NOT_FOUND', 'County not found');
+  }
+
+  private listCounties(request: TransportRequest): Reply {
+    const params = request.params;
+    const state = param(params, 'state_code');
+    const bounds: Array<[keyof StoredCounty, number | undefined, number | undefined]> = [
+      ['population', numberParam(params, 'min_population'), numberParam(params, 'max_population')],
+      ['hail_risk_score', numberParam(params, 'min_hail_risk'), numberParam(params, 'max_hail_risk')],
+      ['avg_home_value', numberParam(params, 'min_home_value'), numberParam(params, 'max_home_value')],
+    ];
+    const hasStormData = param(params, 'has_storm_data');
+
+    const matches = Array.from(this.counties.values()).filter((county) => {
+      if (state && county.state_code.toUpperCase() !== state.toUpperCase()) return false;
+      for (const [field, min, max] of bounds) {
+        const value = county[field] as number | undefined;
+        if (min !== undefined && (value === undefined || value < min)) return false;
+        if (max !== undefined && (value === undefined || value > max)) return false;
+      }
+      if (hasStormData !== undefined) {
+        const hasData = county.storm_events_last_5_years !== undefined;
+        if (String(hasData) !== hasStormData) return false;
+      }
+      return true;
+    });
+
+    const offset = numberParam(params, 'offset') || 0;
+    const limit = numberParam(params, 'limit');
+    const page = matches.slice(offset, limit === undefined ? undefined : offset + limit);
+    return ok(page, { count: matches.length });
+  }
+
+  private rankCounties(request: TransportRequest, field: 'hail_risk_score' | 'avg_home_value'): Reply {
+    const state = param(request.params, 'state_code');
+    const limit = numberParam(request.params, 'limit') ?? 50;
+    const counties = (state ? this.countiesIn(state) : Array.from(this.counties.values()))
+      .filter((county) => county[field] !== undefined)
+      .sort((a, b) => (b[field] as number) - (a[field] as number))
+      .slice(0, limit);
+    return ok(counties);
+  }
+
+  private countyStats(request: TransportRequest): Reply {
+    const list = fipsList(request);
+    const counties = list
+      .map((fips) => this.counties.get(fips))
+      .filter((county): county is StoredCounty => county !== undefined);
+
+    const stats: CountyStats = {
+      total_counties: counties.length,
+      total_homes: sum(counties.map((c) => c.total_homes)),
+      total_population: sum(counties.map((c) => c.population)),
+      avg_home_value: average(counties.map((c) => c.avg_home_value)),
+      avg_hail_risk: average(counties.map((c) => c.hail_risk_score)),
+      total_estimated_replacements: sum(counties.map((c) => c.estimated_annual_roof_replacements)),
+    };
+    return ok(stats);
+  }
+
+  // ============================================
+  // PERMIT HISTORY
+  // ============================================
+
+  private permitsFor(countyFips: string): PermitHistory[] {
+    return this.permits
+      .filter((permit) => permit.county_fips === countyFips)
+      .sort((a, b) => a.year - b.year);
+  }
+
+  /** The most recent `years` years, capped by the plan's history limit */
+  private recent<T extends { year: number }>(rows: T[], years: number | undefined): T[] {
+    const limit = Math.min(years ?? Infinity, this.permitAccess.historical_years_limit ?? Infinity);
+    return limit === Infinity ? rows : rows.slice(-limit);
+  }
+
+  private permitHistory(countyFips: string, request: TransportRequest): Reply {
+    return ok(this.recent(this.permitsFor(countyFips), numberParam(request.params, 'years')));
+  }
+
+  private permitSummary(request: TransportRequest): Reply {
+    const list = fipsList(request);
+    const summaries: PermitHistorySummary[] = list
+      .map((fips) => ({ fips, permits: this.recent(this.permitsFor(fips), undefined) }))
+      .filter(({ permits }) => permits.length > 0)
+      .map(({ fips, permits }) => {
+        const county = this.counties.get(fips);
+        const years = permits.map((permit, index) => ({
+          year: permit.year,
+          roofing_permits: permit.roofing_permits || 0,
+          yoy_change_pct:
+            permit.yoy_change_pct ?? yoyChange(permit.roofing_permits || 0, permits[index - 1]?.roofing_permits),
+        }));
+        const total = sum(years.map((y) => y.roofing_permits));
+        return {
+          county_fips: fips,
+          county_name: county?.county_name || '',
+          state_code: county?.state_code || this.stateOf(fips) || '',
+          years,
+          total_roofing_permits: total,
+          avg_annual_permits: Math.round(total / years.length),
+          trend: trendOf(years.map((y) => y.roofing_permits)),
+        };
+      });
+    return ok(summaries);
+  }
+
+  private topCounties(request: TransportRequest): Reply {
+    const limit = numberParam(request.params, 'limit') ?? 25;
+    const state = param(request.params, 'state_code');
+    const year = numberParam(request.params, 'year') ?? Math.max(0, ...this.permits.map((p) => p.year));
+
+    const top: TopCountyByPermits[] = this.permits
+      .filter((permit) => permit.year === year)
+      .map((permit) => {
+        const county = this.counties.get(permit.county_fips);
+        return {
+          county_fips: permit.county_fips,
+          county_name: county?.county_name || '',
+          state_code: county?.state_code || this.stateOf(permit.county_fips) || '',
+          roofing_permits: permit.roofing_permits || 0,
+          year: permit.year,
+        };
+      })
+      .filter((county) => !state || county.state_code.toUpperCase() === state.toUpperCase())
+      .sort((a, b) => b.roofing_permits - a.roofing_permits)
+      .slice(0, limit);
+    return ok(top);
+  }
+
+  private stateTrends(stateCode: string, request: TransportRequest): Reply {
+    const state = stateCode.toUpperCase();
+    const totals = new Map<number, number>();
+    for (const permit of this.permits) {
+      if (this.stateOf(permit.county_fips)?.toUpperCase() !== state) continue;
+      totals.set(permit.year, (totals.get(permit.year) || 0) + (permit.roofing_permits || 0));
+    }
+
+    const rows = Array.from(totals.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([year, total_permits]) => ({ year, total_permits }));
+    const years = this.recent(rows, numberParam(request.params, 'years')).map((row, index, all) => ({
+      ...row,
+      yoy_change_pct: yoyChange(row.total_permits, all[index - 1]?.total_permits),
+    }));
+
+    const trends: StateTrends = {
+      state_code: state,
+      state_name: state,
+      years,
+      trend: trendOf(years.map((y) => y.total_permits)),
+      avg_annual_permits: years.length ? Math.round(sum(years.map((y) => y.total_permits)) / years.length) : 0,
+    };
+    return ok(trends);
+  }
+}
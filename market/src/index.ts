@@ -6,15 +6,32 @@
  */
 
 import { MarketServiceClient } from './MarketServiceClient';
-import { MarketServiceConfig, ServiceEnvironment, SERVICE_URLS } from './types';
+import { MarketServiceConfig, EnvironmentName, MarketServiceError } from './types';
+import { getEnvironment } from './endpoints';
 
 // Core client
 export { MarketServiceClient } from './MarketServiceClient';
 export { default } from './MarketServiceClient';
+export { TenantClient } from './TenantClient';
 
 // All types
 export * from './types';
 
+// Response cache store (implement CacheStore for custom backends)
+export { MemoryCacheStore, DEFAULT_CACHE_TTLS } from './cache';
+
+// Custom environments and multi-endpoint failover
+export { registerEnvironment, getEnvironment } from './endpoints';
+
+// Cent-accurate cost adder pricing
+export { priceCostAdders, toCents, fromCents } from './pricing';
+
+// Proposal line items and renderings
+export { buildProposal, renderProposalText, renderProposalHtml } from './proposal';
+
+// Cost adder conflict detection
+export { validateCostAdders } from './costAdders';
+
 /**
  * Create a Market Service client with environment-aware configuration.
  *
@@ -34,6 +51,21 @@ export * from './types';
  * });
  *
  * @example
+ * // Date fields typed and returned as Date objects
+ * const client = createMarketClient({
+ *   apiKey: process.env.MARKET_API_KEY!,
+ *   hydrateDates: true,
+ * });
+ *
+ * @example
+ * // Environment with a standby endpoint
+ * registerEnvironment('production', {
+ *   endpoints: ['https://market-service.dripedge.io', 'https://market-service-dr.dripedge.io'],
+ *   production: true,
+ * });
+ * const client = createMarketClient({ environment: 'production', apiKey: 'mk_live_...' });
+ *
+ * @example
  * // Use NODE_ENV
  * const client = createMarketClient({
  *   environment: (process.env.NODE_ENV === 'production' ? 'production' : 'development') as ServiceEnvironment,
@@ -41,19 +73,27 @@ export * from './types';
  *   clientAppName: 'my-app',
  * });
  */
+export function createMarketClient(
+  config: MarketServiceConfig & { hydrateDates: true }
+): MarketServiceClient<Date>;
+export function createMarketClient(config: MarketServiceConfig): MarketServiceClient;
 export function createMarketClient(config: MarketServiceConfig): MarketServiceClient {
   return new MarketServiceClient(config);
 }
 
 /**
- * Get the default service URL for an environment
+ * Get the primary service URL for a built-in or registered environment
  *
  * @example
  * const url = getServiceURL('production');
  * // => 'https://market-service.dripedge.io'
  */
-export function getServiceURL(environment: ServiceEnvironment): string {
-  return SERVICE_URLS[environment];
+export function getServiceURL(environment: EnvironmentName): string {
+  const definition = getEnvironment(environment);
+  if (!definition) {
+    throw new MarketServiceError(`Unknown environment "${environment}"`, 'UNKNOWN_ENVIRONMENT');
+  }
+  return definition.endpoints[0];
 }
 
 // React hooks (tree-shakeable, optional peer dependency)
@@ -0,0 +1,36 @@
+/**
+ * Market Service SDK - Node.js
+ *
+ * Helpers that depend on Node.js built-ins, published as a separate entry point
+ * (`@jakeatknocked/market-service-sdk/node`) so browser bundles never pull them in.
+ */
+
+import { promises as fs } from 'fs';
+import { CassetteInteraction, CassetteStore } from './types';
+
+/**
+ * Stores each cassette as a pretty-printed JSON file: `<directory>/<cassette>.json`
+ */
+export class FileCassetteStore implements CassetteStore {
+  constructor(private readonly directory: string) {}
+
+  async load(name: string): Promise<CassetteInteraction[] | undefined> {
+    try {
+      const file = JSON.parse(await fs.readFile(this.pathFor(name), 'utf8'));
+      return file.interactions;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async save(name: string, interactions: CassetteInteraction[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(name), JSON.stringify({ name, interactions }, null, 2) + '\n', 'utf8');
+  }
+
+  private pathFor(name: string): string {
+    const file = name.replace(/[^a-zA-Z0-9._-]+/g, '_');
+    return `${this.directory.replace(/\/+$/, '')}/${file}.json`;
+  }
+}
@@ -0,0 +1,7 @@
+// Generated from package.json by scripts/generate-package-info.js - do not edit
+
+/** Published package name */
+export const PACKAGE_NAME = '@jakeatknocked/market-service-sdk';
+
+/** Published package version */
+export const PACKAGE_VERSION = '1.1.0';
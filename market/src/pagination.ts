@@ -0,0 +1,46 @@
+/**
+ * Pagination helpers
+ * Turn offset/limit list endpoints into pages and async iterators
+ */
+
+import { ApiResponse, Page } from './types';
+
+/** Page size used when iterating without an explicit limit */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Build a page from a list response
+ * Uses the service's `count` when present; otherwise a short page is taken as the last one
+ */
+export function toPage<T>(body: ApiResponse<T[]>, offset: number, limit?: number): Page<T> {
+  const items = body.data || [];
+  const total = typeof body.count === 'number' ? body.count : undefined;
+  const end = offset + items.length;
+
+  let hasMore: boolean;
+  if (items.length === 0) {
+    hasMore = false;
+  } else if (total !== undefined) {
+    hasMore = end < total;
+  } else {
+    hasMore = limit !== undefined && items.length >= limit;
+  }
+
+  return { items, total, offset, nextOffset: hasMore ? end : null };
+}
+
+/**
+ * Walk pages from `startOffset` until there is no next page, yielding each item
+ */
+export async function* paginate<T>(
+  fetchPage: (offset: number) => Promise<Page<T>>,
+  startOffset: number = 0
+): AsyncGenerator<T, void, undefined> {
+  let offset: number | null = startOffset;
+
+  while (offset !== null) {
+    const page: Page<T> = await fetchPage(offset);
+    yield* page.items;
+    offset = page.nextOffset;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Pricing engine
+ * Prices cost adders in integer cents with a fixed evaluation order, rounding rules and clamps
+ */
+
+import {
+  AdderPricingRule,
+  CostAdder,
+  CostAdderPricing,
+  DateField,
+  MarketServiceError,
+  PercentageBasis,
+  PriceLine,
+  PricingInput,
+  PricingOptions,
+  RoundingMode,
+  RoundingRule,
+} from './types';
+import { isInEffect, toAsOf } from './costAdders';
+
+const DEFAULT_ROUNDING: RoundingRule = { mode: 'half-up', incrementCents: 1 };
+
+/** Exact fraction `numerator / denominator`; the denominator is always positive */
+interface Fraction {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * Exact decimal value of a number as written (`0.1` is one tenth, not its binary approximation)
+ */
+function toFraction(value: number, field: string): Fraction {
+  if (!Number.isFinite(value)) {
+    throw new MarketServiceError(`${field} must be a finite number, received ${value}`, 'INVALID_PRICING_INPUT');
+  }
+  const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const scale = fraction.length - Number(exponent);
+  const digits = BigInt(whole + fraction);
+  return scale >= 0
+    ? { numerator: digits, denominator: BigInt(10) ** BigInt(scale) }
+    : { numerator: digits * BigInt(10) ** BigInt(-scale), denominator: BigInt(1) };
+}
+
+function multiply(a: Fraction, b: Fraction): Fraction {
+  return { numerator: a.numerator * b.numerator, denominator: a.denominator * b.denominator };
+}
+
+function scale(a: Fraction, factor: bigint, divisor: bigint = BigInt(1)): Fraction {
+  return { numerator: a.numerator * factor, denominator: a.denominator * divisor };
+}
+
+/**
+ * Divide and round to an integer
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) return quotient;
+
+  const negative = numerator < BigInt(0);
+  const awayFromZero = negative ? quotient - BigInt(1) : quotient + BigInt(1);
+  const twice = (negative ? -remainder : remainder) * BigInt(2);
+
+  switch (mode) {
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'half-even':
+      if (twice === denominator) return quotient % BigInt(2) === BigInt(0) ? quotient : awayFromZero;
+      return twice > denominator ? awayFromZero : quotient;
+    default:
+      return twice >= denominator ? awayFromZero : quotient;
+  }
+}
+
+/**
+ * Decimal string for a fraction whose denominator is a power of ten
+ */
+function toDecimalString(value: Fraction): string {
+  const digits = value.denominator.toString().length - 1;
+  const negative = value.numerator < BigInt(0);
+  const absolute = (negative ? -value.numerator : value.numerator).toString().padStart(digits + 1, '0');
+  const whole = absolute.slice(0, absolute.length - digits);
+  const fraction = digits > 0 ? absolute.slice(-digits).replace(/0+$/, '') : '';
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+function roundCents(exact: Fraction, rule: RoundingRule): number {
+  const increment = BigInt(Math.max(1, Math.round(rule.incrementCents ?? 1)));
+  return Number(divideRounded(exact.numerator, exact.denominator * increment, rule.mode) * increment);
+}
+
+/**
+ * Convert a dollar amount to cents, rounding half-up to the cent
+ */
+export function toCents(dollars: number): number {
+  return roundCents(scale(toFraction(dollars, 'Amount'), BigInt(100)), DEFAULT_ROUNDING);
+}
+
+/**
+ * Convert cents to dollars
+ */
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/** Evaluation order: fixed, per-square, percentage of base, percentage of subtotal */
+function stage(type: CostAdder['adder_type'], basis: PercentageBasis): number {
+  if (type === 'fixed') return 0;
+  if (type === 'per_square') return 1;
+  return basis === 'base' ? 2 : 3;
+}
+
+/**
+ * Price cost adders against a quote in integer cents
+ *
+ * Adders are evaluated fixed first, then per-square, then percentages of the base price,
+ * then percentages of the running subtotal; within each group they keep their input order.
+ * Each amount is computed exactly, rounded per its rule, then clamped to `minCents`/`maxCents`.
+ * With `asOf`, adders whose effective/expiration dates do not cover that date are left out.
+ */
+export function priceCostAdders<D extends DateField>(
+  costAdders: CostAdder<D>[],
+  input: PricingInput,
+  options: PricingOptions = {}
+): CostAdderPricing {
+  const basePriceCents = toCents(input.basePrice);
+  const squares = toFraction(input.roofSquares, 'roofSquares');
+  const defaultBasis = options.percentageBasis || 'base';
+  const asOf = options.asOf === undefined ? undefined : toAsOf(options.asOf);
+
+  const ordered = costAdders
+    .filter((adder) => !asOf || isInEffect(adder, asOf))
+    .map((adder, index) => {
+      const rule: AdderPricingRule = options.rules?.[adder.id] || {};
+      const basis = rule.basis || defaultBasis;
+      return { adder, rule, basis, index, stage: stage(adder.adder_type, basis) };
+    })
+    .sort((a, b) => a.stage - b.stage || a.index - b.index);
+
+  const lines: PriceLine[] = [];
+  let subtotalCents = basePriceCents;
+
+  for (const { adder, rule, basis } of ordered) {
+    const value = toFraction(adder.cost_value, `cost_value of adder ${adder.id}`);
+    let exact: Fraction;
+    let inputs: PriceLine['inputs'];
+
+    switch (adder.adder_type) {
+      case 'percentage': {
+        const basisCents = basis === 'base' ? basePriceCents : subtotalCents;
+        exact = scale(value, BigInt(basisCents), BigInt(100));
+        inputs = { costValue: adder.cost_value, basis, basisCents };
+        break;
+      }
+      case 'per_square':
+        exact = scale(multiply(value, squares), BigInt(100));
+        inputs = { costValue: adder.cost_value, roofSquares: input.roofSquares };
+        break;
+      default:
+        exact = scale(value, BigInt(100));
+        inputs = { costValue: adder.cost_value };
+    }
+
+    const rounding = { ...DEFAULT_ROUNDING, ...options.rounding, ...rule.rounding };
+    const roundedCents = roundCents(exact, rounding);
+    let amountCents = roundedCents;
+    let clamped: PriceLine['clamped'];
+    if (rule.minCents !== undefined && amountCents < rule.minCents) {
+      amountCents = rule.minCents;
+      clamped = 'min';
+    }
+    if (rule.maxCents !== undefined && amountCents > rule.maxCents) {
+      amountCents = rule.maxCents;
+      clamped = 'max';
+    }
+
+    subtotalCents += amountCents;
+    lines.push({
+      adderId: adder.id,
+      name: adder.display_name || adder.adder_name,
+      type: adder.adder_type,
+      step: lines.length + 1,
+      inputs,
+      exactCents: toDecimalString(exact),
+      rounding,
+      roundedCents,
+      ...(clamped && { clamped }),
+      amountCents,
+      displayOnProposal: adder.display_on_proposal,
+    });
+  }
+
+  return {
+    basePriceCents,
+    lines,
+    totalAdderCents: subtotalCents - basePriceCents,
+    totalCents: subtotalCents,
+  };
+}
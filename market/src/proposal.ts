@@ -0,0 +1,113 @@
+/**
+ * Proposal builder
+ * Turns priced cost adders into customer-facing line items, with text and HTML renderings
+ */
+
+import { CostAdderPricing, Proposal, ProposalLineItem, ProposalOptions } from './types';
+
+const DEFAULT_LOCALE = 'en-US';
+const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Round cents to the currency's smallest unit (half away from zero)
+ * Pricing is in cents; a currency with fewer minor digits (JPY has none) is shown in whole units
+ */
+function toMinorUnit(cents: number, fractionDigits: number): number {
+  const step = 10 ** Math.max(0, 2 - fractionDigits);
+  return Math.sign(cents) * Math.round(Math.abs(cents) / step) * step;
+}
+
+/**
+ * Build a proposal from priced adders (`priceCostAdders` or `priceQuote`)
+ *
+ * Adders with `display_on_proposal` are itemized; the rest are rolled into the base price,
+ * so the customer sees the same total the SDK priced. In a currency with fewer than two minor
+ * digits each line is rounded to that unit and the total is the sum of the rounded lines.
+ *
+ * @example
+ * const proposal = buildProposal(quote, { locale: 'en-US', currency: 'USD' });
+ * const text = renderProposalText(proposal);
+ * const html = renderProposalHtml(proposal);
+ */
+export function buildProposal(pricing: CostAdderPricing, options: ProposalOptions = {}): Proposal {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+  const fractionDigits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  const item = (label: string, cents: number, adderId?: string): ProposalLineItem => {
+    const amountCents = toMinorUnit(cents, fractionDigits);
+    return {
+      label,
+      amountCents,
+      formatted: formatter.format(amountCents / 100),
+      ...(adderId && { adderId }),
+    };
+  };
+
+  const hidden = pricing.lines.filter((line) => !line.displayOnProposal);
+  const hiddenCents = hidden.reduce((sum, line) => sum + line.amountCents, 0);
+
+  const basePrice = item(options.basePriceLabel || 'Base price', pricing.basePriceCents + hiddenCents);
+  const lineItems = pricing.lines
+    .filter((line) => line.displayOnProposal)
+    .map((line) => item(line.name, line.amountCents, line.adderId));
+  const totalCents = lineItems.reduce((sum, line) => sum + line.amountCents, basePrice.amountCents);
+
+  return {
+    locale,
+    currency,
+    basePrice,
+    lineItems,
+    total: item(options.totalLabel || 'Total', totalCents),
+    hiddenAdderIds: hidden.map((line) => line.adderId),
+  };
+}
+
+/**
+ * Plain-text rendering: one line per item with right-aligned amounts, then the total
+ */
+export function renderProposalText(proposal: Proposal): string {
+  const rows = [proposal.basePrice, ...proposal.lineItems];
+  const all = [...rows, proposal.total];
+  const labelWidth = Math.max(...all.map((row) => row.label.length));
+  const amountWidth = Math.max(...all.map((row) => row.formatted.length));
+  const format = (row: ProposalLineItem) =>
+    `${row.label.padEnd(labelWidth)}  ${row.formatted.padStart(amountWidth)}`;
+
+  return [
+    ...rows.map(format),
+    '-'.repeat(labelWidth + 2 + amountWidth),
+    format(proposal.total),
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * HTML rendering: a `<table class="proposal">` with the total in `<tfoot>`
+ * Labels are escaped; style it with the `proposal` class
+ */
+export function renderProposalHtml(proposal: Proposal): string {
+  const row = (item: ProposalLineItem) =>
+    `<tr${item.adderId ? ` data-adder-id="${escapeHtml(item.adderId)}"` : ''}>` +
+    `<th scope="row">${escapeHtml(item.label)}</th>` +
+    `<td class="amount">${escapeHtml(item.formatted)}</td></tr>`;
+
+  return [
+    `<table class="proposal" lang="${escapeHtml(proposal.locale)}">`,
+    '<tbody>',
+    ...[proposal.basePrice, ...proposal.lineItems].map(row),
+    '</tbody>',
+    '<tfoot>',
+    row(proposal.total),
+    '</tfoot>',
+    '</table>',
+  ].join('\n');
+}
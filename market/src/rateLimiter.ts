@@ -0,0 +1,135 @@
+/**
+ * Client-side rate limiter
+ * Token bucket plus concurrency cap; calls over the limit wait in a FIFO queue
+ */
+
+import { MarketServiceError, RateLimitOptions, RateLimiterStats } from './types';
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: MarketServiceError) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitOptions) {
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity;
+    this.burst = options.burst ?? Math.max(1, Math.ceil(options.requestsPerSecond ?? 1));
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Wait for a slot; resolves with a release function to call when the request settles
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new MarketServiceError('Request was aborted', 'ABORTED'));
+        return;
+      }
+
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index > -1) this.queue.splice(index, 1);
+          reject(new MarketServiceError('Request was aborted', 'ABORTED'));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop issuing requests for the given time, e.g. after a 429 with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+  }
+
+  stats(): RateLimiterStats {
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null,
+    };
+  }
+
+  private refill(now: number): void {
+    if (this.requestsPerSecond === Infinity) {
+      this.tokens = this.burst;
+      return;
+    }
+    if (now <= this.lastRefill) return;
+
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+
+      // A release will call drain again
+      if (this.active >= this.maxConcurrent) return;
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.schedule(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+
+      this.tokens -= 1;
+      this.active++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, Math.ceil(ms)));
+  }
+}
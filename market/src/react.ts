@@ -21,6 +21,29 @@ import {
   MarketServiceError,
 } from './types';
 
+// ============================================
+// REQUEST CANCELLATION
+// ============================================
+
+/**
+ * Track the AbortController of the latest request issued by a hook
+ *
+ * Starting a new request aborts the previous one, so a superseded response
+ * can never overwrite newer state. Unmounting aborts whatever is in flight.
+ */
+function useAbortController(): () => AbortController {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller;
+  }, []);
+}
+
 // ============================================
 // SDK STATUS HOOK
 // ============================================
@@ -137,24 +160,28 @@ export function useMarkets(
   const [markets, setMarkets] = useState<Market[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   // Stringify filters for dependency comparison
   const filtersKey = JSON.stringify(filters);
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
     setLoading(true);
     setError(null);
 
     try {
-      const data = await client.getMarkets(filters);
+      const data = await client.getMarkets(filters, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setMarkets(data);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, filtersKey]);
 
@@ -206,8 +233,11 @@ export function useMarket(
   const [costAdders, setCostAdders] = useState<CostAdder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
+
     if (!marketId) {
       setMarket(null);
       setCostAdders([]);
@@ -220,18 +250,20 @@ export function useMarket(
 
     try {
       const [marketData, addersData] = await Promise.all([
-        client.getMarketById(marketId),
-        client.getCostAdders(marketId),
+        client.getMarketById(marketId, { signal: controller.signal }),
+        client.getCostAdders(marketId, { signal: controller.signal }),
       ]);
+      if (controller.signal.aborted) return;
       setMarket(marketData);
       setCostAdders(addersData);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, marketId]);
 
@@ -282,28 +314,32 @@ export function useCounties(
   const [counties, setCounties] = useState<CountyData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const filtersKey = JSON.stringify(filters);
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
     setLoading(true);
     setError(null);
 
     try {
       let data: CountyData[];
       if (filters?.state_code) {
-        data = await client.getCountiesByState(filters.state_code);
+        data = await client.getCountiesByState(filters.state_code, { signal: controller.signal });
       } else {
-        data = await client.getCounties(filters);
+        data = await client.getCounties(filters, { signal: controller.signal });
       }
+      if (controller.signal.aborted) return;
       setCounties(data);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, filtersKey]);
 
@@ -336,21 +372,25 @@ export function useHighRiskCounties(
   const [counties, setCounties] = useState<CountyData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
     setLoading(true);
     setError(null);
 
     try {
-      const data = await client.getHighRiskCounties(limit, stateCode);
+      const data = await client.getHighRiskCounties(limit, stateCode, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setCounties(data);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, limit, stateCode]);
 
@@ -400,21 +440,27 @@ export function usePermitAccess(
   const [access, setAccess] = useState<FeatureAccessResult | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
     setLoading(true);
     setError(null);
 
     try {
-      const result = await client.checkPermitHistoryAccess(clientId, brandId);
+      const result = await client.checkPermitHistoryAccess(clientId, brandId, {
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
       setAccess(result);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, clientId, brandId]);
 
@@ -448,10 +494,13 @@ export function usePermitSummary(
   const [summaries, setSummaries] = useState<PermitHistorySummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const countyKey = JSON.stringify(countyFipsList);
 
   const refetch = useCallback(async () => {
+    const controller = beginRequest();
+
     if (countyFipsList.length === 0) {
       setSummaries([]);
       setLoading(false);
@@ -462,15 +511,19 @@ export function usePermitSummary(
     setError(null);
 
     try {
-      const data = await client.getPermitHistorySummary(countyFipsList, clientId, brandId);
+      const data = await client.getPermitHistorySummary(countyFipsList, clientId, brandId, {
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
       setSummaries(data);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
       ));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, countyKey, clientId, brandId]);
 
@@ -526,12 +579,14 @@ export function useMarketLookup(
   const [matchedBy, setMatchedBy] = useState<'county' | 'zip' | 'state' | 'none' | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<MarketServiceError | null>(null);
+  const beginRequest = useAbortController();
 
   const lookup = useCallback(async (params: {
     zip?: string;
     countyFips?: string;
     stateCode?: string;
   }) => {
+    const controller = beginRequest();
     setLoading(true);
     setError(null);
 
@@ -541,12 +596,14 @@ export function useMarketLookup(
         zip: params.zip,
         county_fips: params.countyFips,
         state_code: params.stateCode,
-      });
+      }, { signal: controller.signal });
+      if (controller.signal.aborted) return;
 
       setMarket(result.market);
       setCostAdders(result.cost_adders);
       setMatchedBy(result.matched_by);
     } catch (e) {
+      if (controller.signal.aborted) return;
       setError(e instanceof MarketServiceError ? e : new MarketServiceError(
         (e as Error).message,
         'UNKNOWN_ERROR'
@@ -555,7 +612,7 @@ export function useMarketLookup(
       setCostAdders([]);
       setMatchedBy(null);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) setLoading(false);
     }
   }, [client, brandId]);
 
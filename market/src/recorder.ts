@@ -0,0 +1,140 @@
+/**
+ * Record/replay
+ * Save real service traffic to cassettes and answer requests from them later
+ */
+
+import {
+  CassetteInteraction,
+  MarketServiceError,
+  RecordingOptions,
+  Transport,
+  TransportRequest,
+} from './types';
+import { stableStringify } from './requestKey';
+
+/** Request headers that carry credentials and are never written to a cassette */
+const REDACTED_HEADERS = ['x-api-key', 'authorization'];
+const REDACTED = '[REDACTED]';
+
+/**
+ * Key used to match a request against recorded ones: method, path, params and body
+ */
+function matchKey(request: { method: string; path: string; params?: unknown; body?: unknown }): string {
+  const params = stableStringify(request.params);
+  const body = stableStringify(request.body);
+  return [
+    request.method.toUpperCase(),
+    request.path,
+    params === '{}' ? '' : params,
+    body,
+  ].join(' ');
+}
+
+/** Copy through JSON so recorded values match what replay will produce */
+function wire<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Wraps a transport to record its traffic, or replaces it with a cassette in replay mode
+ */
+export class Recorder {
+  private readonly redact: Set<string>;
+  private interactions: CassetteInteraction[] | null = null;
+  private loading: Promise<CassetteInteraction[]> | null = null;
+  private used = new Set<CassetteInteraction>();
+  /** Saves run one after another so the file always holds the latest interactions */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: RecordingOptions) {
+    this.redact = new Set(
+      [...REDACTED_HEADERS, ...(options.redactHeaders || [])].map((name) => name.toLowerCase())
+    );
+  }
+
+  wrap(transport: Transport): Transport {
+    return this.options.mode === 'record'
+      ? (request) => this.record(transport, request)
+      : (request) => this.replay(transport, request);
+  }
+
+  private async record(transport: Transport, request: TransportRequest) {
+    const response = await transport(request);
+
+    // Recording starts a fresh cassette
+    if (!this.interactions) this.interactions = [];
+    this.interactions.push({
+      request: {
+        operation: request.operation,
+        method: request.method,
+        path: request.path,
+        params: wire(request.params),
+        body: wire(request.body),
+        headers: this.redactHeaders(request.headers),
+      },
+      response: wire(response),
+      recordedAt: new Date().toISOString(),
+    });
+
+    const snapshot = [...this.interactions];
+    this.saving = this.saving
+      .then(() => this.options.store.save(this.options.cassette, snapshot))
+      .catch((error) => {
+        console.warn(
+          `[MarketServiceSDK] Warning: Could not save cassette "${this.options.cassette}": ${error?.message || error}`
+        );
+      });
+    await this.saving;
+
+    return response;
+  }
+
+  private async replay(transport: Transport, request: TransportRequest) {
+    const interactions = await this.load();
+    const key = matchKey(request);
+    const matches = interactions.filter((interaction) => matchKey(interaction.request) === key);
+
+    // Identical requests replay their recordings in order; once exhausted, the last one repeats
+    const match = matches.find((interaction) => !this.used.has(interaction)) || matches[matches.length - 1];
+    if (match) {
+      this.used.add(match);
+      return wire(match.response);
+    }
+
+    if (this.options.strict === false) {
+      return transport(request);
+    }
+
+    throw new MarketServiceError(
+      `No recorded interaction for ${request.method} ${request.path} in cassette "${this.options.cassette}"` +
+        (interactions.length === 0 ? ' (cassette is empty or missing)' : '') +
+        ` - params: ${stableStringify(request.params) || 'none'}, body: ${stableStringify(request.body) || 'none'}`,
+      'UNMATCHED_REQUEST',
+      undefined,
+      undefined,
+      { method: request.method, path: request.path }
+    );
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    if (this.interactions) return Promise.resolve(this.interactions);
+    if (!this.loading) {
+      this.loading = Promise.resolve(this.options.store.load(this.options.cassette)).then(
+        (interactions) => (this.interactions = interactions || []),
+        (error) => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading;
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] = this.redact.has(name.toLowerCase()) ? REDACTED : value;
+    }
+    return redacted;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Request keys
+ * Stable identifiers for requests, used by the response cache, and idempotency keys for creates
+ */
+
+/**
+ * JSON.stringify with object keys sorted, so equal params always produce the same string
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return '';
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val) && !(val instanceof Date)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, k) => {
+          if (val[k] !== undefined) sorted[k] = val[k];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
+
+/**
+ * Short non-reversible fingerprint (FNV-1a) for displaying credentials in logs and events
+ * 32 bits collide too easily to tell users apart; keys use `credentialDigest`
+ */
+export function fingerprint(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/**
+ * SHA-256 hex digest of a string's UTF-8 bytes
+ * Synchronous and dependency-free, so it runs the same in Node and browsers
+ */
+function sha256(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const blocks = Math.ceil((bytes.length + 9) / 64);
+  const words = new Uint32Array(blocks * 16);
+  bytes.forEach((byte, i) => {
+    words[i >> 2] |= byte << (24 - (i % 4) * 8);
+  });
+  words[bytes.length >> 2] |= 0x80 << (24 - (bytes.length % 4) * 8);
+  // Bit length; strings here are far below 2^32 bits
+  words[words.length - 1] = bytes.length * 8;
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let block = 0; block < words.length; block += 16) {
+    for (let t = 0; t < 64; t++) {
+      if (t < 16) {
+        w[t] = words[block + t];
+      } else {
+        const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+        const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+        w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+      }
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let t = 0; t < 64; t++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+
+  return hash.map((value) => (value >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Identity component of request keys: a SHA-256 digest of the credentials
+ * Collision-resistant, so cache entries and coalesced calls are never shared between users,
+ * even in a cache store shared by many clients
+ */
+export function credentialDigest(apiKey: string, jwtToken?: string): string {
+  return sha256(`${apiKey}:${jwtToken || ''}`);
+}
+
+/**
+ * Build a request key
+ * The URL comes first so keys can be invalidated by path prefix
+ */
+export function buildRequestKey(
+  method: string,
+  url: string,
+  params: unknown,
+  data: unknown,
+  identity: string
+): string {
+  return [url, method.toUpperCase(), stableStringify(params), stableStringify(data), identity].join(' ');
+}
+
+/**
+ * Random key for the `Idempotency-Key` header (UUID v4)
+ */
+export function generateIdempotencyKey(): string {
+  const webCrypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (webCrypto?.randomUUID) {
+    return webCrypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * Retry helpers
+ * Policy resolution and backoff calculation for MarketServiceClient
+ */
+
+import { MarketServiceError, NetworkError, RetryPolicy } from './types';
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'methods'>>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10000,
+  jitter: 'full',
+  retryOnStatus: [429, 503, 504],
+  retryOnNetworkError: true,
+  maxRetryAfterMs: 60000,
+};
+
+/**
+ * Resolve the effective retry policy for a client method
+ * Returns null when retries are disabled for that method
+ */
+export function resolveRetryPolicy(
+  config: boolean | RetryPolicy | undefined,
+  operation: string
+): ResolvedRetryPolicy | null {
+  if (!config) return null;
+
+  const { methods, ...base } = config === true ? ({} as RetryPolicy) : config;
+  const override = methods?.[operation];
+  if (override === false) return null;
+
+  return { ...DEFAULT_RETRY_POLICY, ...base, ...override };
+}
+
+/**
+ * Check whether an error is transient under the given policy
+ */
+export function shouldRetry(error: unknown, policy: ResolvedRetryPolicy): error is MarketServiceError {
+  if (!(error instanceof MarketServiceError)) return false;
+  // Includes timeouts (TimeoutError extends NetworkError)
+  if (error instanceof NetworkError) return policy.retryOnNetworkError;
+  return error.statusCode !== undefined && policy.retryOnStatus.includes(error.statusCode);
+}
+
+/**
+ * Delay before the next attempt, in milliseconds
+ * Honors `retryAfter` when the service sent one; returns null if that wait exceeds the policy limit
+ */
+export function computeRetryDelay(
+  attempt: number,
+  error: MarketServiceError,
+  policy: ResolvedRetryPolicy
+): number | null {
+  if (error.retryAfter !== undefined) {
+    const waitMs = error.retryAfter * 1000;
+    return waitMs > policy.maxRetryAfterMs ? null : waitMs;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * backoff;
+    case 'equal':
+      return backoff / 2 + Math.random() * (backoff / 2);
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Throw an ABORTED error if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new MarketServiceError('Request was aborted', 'ABORTED');
+  }
+}
+
+/**
+ * Wait for the given delay, rejecting with an ABORTED error if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new MarketServiceError('Request was aborted', 'ABORTED'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new MarketServiceError('Request was aborted', 'ABORTED'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Response schemas
+ * Runtime checks mirroring the interfaces in types.ts, used by the opt-in response validation
+ */
+
+import { ResponseValidationIssue } from './types';
+
+type Schema = (value: unknown, path: string, issues: ResponseValidationIssue[]) => void;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+function check(expected: string, test: (value: unknown) => boolean): Schema {
+  return (value, path, issues) => {
+    if (!test(value)) {
+      issues.push({ path, expected, received: describe(value) });
+    }
+  };
+}
+
+const string = check('string', (v) => typeof v === 'string');
+const number = check('number', (v) => typeof v === 'number' && Number.isFinite(v));
+const boolean = check('boolean', (v) => typeof v === 'boolean');
+const dateLike = check(
+  'Date or ISO date string',
+  (v) => v instanceof Date || (typeof v === 'string' && !Number.isNaN(Date.parse(v)))
+);
+
+function oneOf(...values: string[]): Schema {
+  return check(values.map((v) => `'${v}'`).join(' | '), (v) => values.includes(v as string));
+}
+
+/** Optional fields may be missing or null */
+function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) schema(value, path, issues);
+  };
+}
+
+function nullable(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== null) schema(value, path, issues);
+  };
+}
+
+function array(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+function record(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) item(entry, `${path}.${key}`, issues);
+  };
+}
+
+function object(shape: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', received: describe(value) });
+      return;
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      schema((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+    }
+  };
+}
+
+// ============================================
+// DOMAIN SCHEMAS
+// ============================================
+
+const serviceableCounty = object({
+  county_fips: string,
+  county_name: string,
+  state_code: string,
+});
+
+const market = object({
+  id: string,
+  legacy_id: optional(number),
+  name: string,
+  description: optional(string),
+  state_code: optional(string),
+  market_type: oneOf('state', 'metro', 'custom'),
+  brand_id: number,
+  client_id: number,
+  parent_market_id: optional(string),
+  serviceable_counties: optional(array(serviceableCounty)),
+  active: boolean,
+  created_at: dateLike,
+  updated_at: dateLike,
+});
+
+const costAdder = object({
+  id: string,
+  market_id: string,
+  adder_name: string,
+  adder_type: oneOf('percentage', 'fixed', 'per_square'),
+  cost_value: number,
+  applies_to_retail: boolean,
+  applies_to_lom: boolean,
+  county_fips: optional(string),
+  display_on_proposal: boolean,
+  display_name: optional(string),
+  effective_date: optional(dateLike),
+  expiration_date: optional(dateLike),
+  active: boolean,
+  created_at: dateLike,
+  updated_at: dateLike,
+});
+
+const marketLookup = object({
+  market: nullable(market),
+  cost_adders: array(costAdder),
+  matched_by: oneOf('county', 'zip', 'state', 'none'),
+});
+
+const countyData = object({
+  county_fips: string,
+  county_name: string,
+  state_code: string,
+  total_homes: optional(number),
+  total_businesses: optional(number),
+  avg_home_value: optional(number),
+  median_home_value: optional(number),
+  population: optional(number),
+  households: optional(number),
+  median_household_income: optional(number),
+  hail_risk_score: optional(number),
+  storm_events_last_year: optional(number),
+  storm_events_last_5_years: optional(number),
+  estimated_annual_roof_replacements: optional(number),
+  data_sources: optional(record(string)),
+  created_at: optional(dateLike),
+  updated_at: optional(dateLike),
+});
+
+const countyStats = object({
+  total_counties: number,
+  total_homes: number,
+  total_population: number,
+  avg_home_value: number,
+  avg_hail_risk: number,
+  total_estimated_replacements: number,
+});
+
+const permitHistory = object({
+  county_fips: string,
+  year: number,
+  roofing_permits: optional(number),
+  residential_roofing_permits: optional(number),
+  commercial_roofing_permits: optional(number),
+  total_permit_value: optional(number),
+  yoy_change_pct: optional(number),
+  data_quality: oneOf('verified', 'estimated', 'partial'),
+});
+
+const trend = oneOf('increasing', 'decreasing', 'stable');
+
+const permitHistorySummary = object({
+  county_fips: string,
+  county_name: string,
+  state_code: string,
+  years: array(object({
+    year: number,
+    roofing_permits: number,
+    yoy_change_pct: optional(number),
+  })),
+  total_roofing_permits: number,
+  avg_annual_permits: number,
+  trend,
+});
+
+const stateTrends = object({
+  state_code: string,
+  state_name: string,
+  years: array(object({
+    year: number,
+    total_permits: number,
+    yoy_change_pct: optional(number),
+  })),
+  trend,
+  avg_annual_permits: number,
+});
+
+const topCountyByPermits = object({
+  county_fips: string,
+  county_name: string,
+  state_code: string,
+  roofing_permits: number,
+  year: number,
+});
+
+const featureAccess = object({
+  has_access: boolean,
+  access_level: optional(oneOf('full', 'limited', 'trial')),
+  remaining_calls: optional(number),
+  historical_years_limit: optional(number),
+  trial_days_remaining: optional(number),
+  upgrade_message: optional(string),
+});
+
+/**
+ * Schema for the `data` field of each client method's response
+ */
+const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  getMarkets: array(market),
+  getMarketById: market,
+  getMarketByLegacyId: market,
+  createMarket: market,
+  updateMarket: market,
+  lookupMarket: marketLookup,
+  getServiceableCounties: array(serviceableCounty),
+  getCostAdders: array(costAdder),
+  createCostAdder: costAdder,
+  updateCostAdder: costAdder,
+  getCounties: array(countyData),
+  getCountiesByState: array(countyData),
+  getCountyByFips: countyData,
+  getHighRiskCounties: array(countyData),
+  getHighValueCounties: array(countyData),
+  getCountyStats: countyStats,
+  checkPermitHistoryAccess: featureAccess,
+  getPermitHistory: array(permitHistory),
+  getPermitHistorySummary: array(permitHistorySummary),
+  getTopCountiesByPermits: array(topCountyByPermits),
+  getStateTrends: stateTrends,
+};
+
+/**
+ * Validate the `data` of a response for the given client method
+ * Returns an empty list when the data matches (or the method has no schema)
+ */
+export function validateResponseData(operation: string, data: unknown): ResponseValidationIssue[] {
+  const schema = RESPONSE_SCHEMAS[operation];
+  const issues: ResponseValidationIssue[] = [];
+
+  // Missing data is handled by the client methods themselves
+  if (schema && data !== undefined && data !== null) {
+    schema(data, 'data', issues);
+  }
+  return issues;
+}
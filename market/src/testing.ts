@@ -0,0 +1,9 @@
+/**
+ * Market Service SDK - Testing
+ *
+ * In-memory fake for unit tests and stories, published as a separate entry point
+ * (`@jakeatknocked/market-service-sdk/testing`) so it stays out of production bundles.
+ */
+
+export { FakeMarketServiceClient, createTestClient } from './FakeMarketServiceClient';
+export { InMemoryMarketService } from './fakeService';
@@ -49,6 +49,51 @@ export const SERVICE_URLS: Record<ServiceEnvironment, string> = {
   production: 'https://market-service.dripedge.io',
 };
 
+/**
+ * A built-in environment or one added with `registerEnvironment()`, e.g. `preview-my-branch`
+ */
+export type EnvironmentName = ServiceEnvironment | (string & {});
+
+/**
+ * A named environment and the endpoints that serve it
+ */
+export interface EnvironmentDefinition {
+  /** Base URLs in failover order; the first is the primary */
+  endpoints: string[];
+  /** Expect production (`mk_live_`) keys in this environment (default: false) */
+  production?: boolean;
+}
+
+/**
+ * Emitted when the client switches to another endpoint
+ */
+export interface EndpointChangeEvent {
+  /** Endpoint that was active before the switch */
+  from: string;
+  /** Endpoint that is active now */
+  to: string;
+  /**
+   * - `failover`: `from` failed with a connection error or 5xx
+   * - `recovered`: the primary answered a health check again
+   */
+  reason: 'failover' | 'recovered';
+  /** The failure that caused a failover */
+  error?: MarketServiceError;
+}
+
+/**
+ * Failover between the endpoints of a multi-endpoint environment
+ */
+export interface FailoverOptions {
+  /**
+   * Minimum time between health checks of the primary while another endpoint is active,
+   * in milliseconds (default: 30000). Checks run in the background alongside requests.
+   */
+  recoveryIntervalMs?: number;
+  /** Called whenever the active endpoint changes */
+  onEndpointChange?: (event: EndpointChangeEvent) => void;
+}
+
 /**
  * SDK Configuration - required for initializing the client
  */
@@ -64,18 +109,28 @@ export interface MarketServiceConfig {
    *
    * // Or auto-detect from NODE_ENV
    * { environment: process.env.NODE_ENV as ServiceEnvironment, apiKey: '...' }
+   *
+   * // Or an environment added with registerEnvironment()
+   * { environment: 'local-docker', apiKey: 'mk_test_...' }
    */
-  environment?: ServiceEnvironment;
+  environment?: EnvironmentName;
 
   /**
    * Custom base URL of the Market Service API.
    * If provided, this overrides the environment-based URL.
+   * Pass a list to fail over between endpoints, primary first.
    *
    * @example
    * // Custom URL (for local development or custom deployments)
    * { baseURL: 'http://localhost:3002', apiKey: '...' }
    */
-  baseURL?: string;
+  baseURL?: string | string[];
+
+  /**
+   * Tune failover for environments with more than one endpoint
+   * Failover itself is always on when there is an endpoint to fail over to.
+   */
+  failover?: FailoverOptions;
 
   /**
    * App-to-app API key for authentication (REQUIRED)
@@ -94,7 +149,35 @@ export interface MarketServiceConfig {
    */
   jwtToken?: string;
 
-  /** Request timeout in milliseconds (default: 10000) */
+  /**
+   * Async provider for the user JWT.
+   * Called before the first request when `jwtToken` is not set, and again when the
+   * service answers 401 with `EXPIRED_JWT` or `INVALID_JWT`; the request is then
+   * replayed once. Concurrent refreshes share a single provider call.
+   */
+  getJwtToken?: () => MaybePromise<string | undefined>;
+
+  /**
+   * Async provider for the API key (e.g. from a secrets manager).
+   * Called when the service answers 401 with `EXPIRED_API_KEY` or `INVALID_API_KEY`;
+   * if it returns a different key, the request is replayed once with it.
+   */
+  getApiKey?: () => MaybePromise<string>;
+
+  /**
+   * Second API key for zero-downtime rotation (can also be staged later with `rotateApiKey()`).
+   * When the service rejects the current key with `EXPIRED_API_KEY` or `INVALID_API_KEY`,
+   * the request is replayed once with this key, which is then promoted to current.
+   * Takes precedence over `getApiKey`.
+   */
+  nextApiKey?: string;
+
+  /**
+   * Called once a promoted key has been accepted by the service
+   */
+  onKeyRotated?: (event: KeyRotatedEvent) => void;
+
+  /** Timeout for each attempt in milliseconds (default: 10000); retries get a fresh timeout */
   timeout?: number;
 
   /**
@@ -107,6 +190,445 @@ export interface MarketServiceConfig {
    * Callback invoked when SDK version status changes
    */
   onVersionChange?: VersionChangeCallback;
+
+  /**
+   * What to do when the service reports this SDK version as deprecated or unsupported
+   * - `warn` (default): keep sending requests and log a warning
+   * - `block-on-unsupported`: fail further calls with `SDK_UNSUPPORTED` once the version is unsupported
+   * - `block-on-deprecated`: also block once the version is deprecated
+   */
+  versionPolicy?: 'warn' | 'block-on-unsupported' | 'block-on-deprecated';
+  /**
+   * Automatic retry for transient failures (429, 503, 504 and network errors).
+   * Pass `true` for the default policy or an object to tune it.
+   * Only idempotent requests are retried. Disabled by default.
+   *
+   * @example
+   * { retry: { maxAttempts: 5, methods: { getPermitHistory: { maxAttempts: 8 } } } }
+   */
+  retry?: boolean | RetryPolicy;
+
+  /**
+   * Response cache for reference data (markets, cost adders, counties).
+   * Pass `true` for an in-memory LRU with default TTLs, or an object to tune it.
+   * Mutations invalidate affected entries automatically. Disabled by default.
+   *
+   * @example
+   * { cache: { ttl: { getCountyByFips: 24 * 60 * 60 * 1000 }, staleWhileRevalidateMs: 60000 } }
+   */
+  cache?: boolean | CacheOptions;
+
+  /**
+   * Share one in-flight HTTP call between identical concurrent idempotent requests
+   * (same method, path, params and credentials). Enabled by default.
+   */
+  dedupe?: boolean;
+
+  /**
+   * Client-side rate limiting. Calls over the limit wait in a queue instead of
+   * being sent, and a 429 response pauses the queue for its `Retry-After`.
+   * Combine with `retry` to also retry the rate-limited call itself.
+   *
+   * @example
+   * { rateLimit: { requestsPerSecond: 20, maxConcurrent: 5 } }
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Fail fast while the service is down instead of waiting for every request to time out.
+   * Pass `true` for the defaults or an object to tune it. Disabled by default.
+   *
+   * @example
+   * { circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 15000 }, cache: true }
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+
+  /**
+   * Request/response middleware, run in the order given
+   * More can be added later with `client.use()`
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Check responses against the SDK types at runtime. Off by default.
+   * - `strict`: throw a `ResponseValidationError` (code `RESPONSE_VALIDATION_FAILED`)
+   * - `lenient`: return the response anyway and report problems to `onValidationIssue`
+   *   (or `console.warn` when no callback is given)
+   */
+  validation?: 'strict' | 'lenient';
+
+  /**
+   * Called with every response that fails validation, in both modes
+   */
+  onValidationIssue?: (report: ResponseValidationReport) => void;
+
+  /**
+   * Called when the service answers a create with the stored result of an earlier request
+   * under the same `Idempotency-Key` (e.g. a retry after a timeout whose first attempt succeeded)
+   */
+  onIdempotentReplay?: (event: IdempotentReplayEvent) => void;
+  /**
+   * Convert date fields in responses (`created_at`, `updated_at`, `effective_date`,
+   * `expiration_date`) to `Date` objects. Clients created with `hydrateDates: true`
+   * type those fields as `Date`.
+   */
+  hydrateDates?: boolean;
+  /**
+   * Send requests through a custom transport instead of HTTP.
+   * Everything else (middleware, retries, caching, error classes) behaves the same.
+   * Used by `FakeMarketServiceClient`.
+   */
+  transport?: Transport;
+  /**
+   * Record responses to a cassette, or replay them without network access
+   *
+   * @example
+   * { recording: { mode: 'replay', cassette: 'market-lookup', store: new FileCassetteStore('__cassettes__') } }
+   */
+  recording?: RecordingOptions;
+}
+
+/**
+ * A single mismatch between a response and the SDK types
+ */
+export interface ResponseValidationIssue {
+  /** Location of the value, e.g. `data[3].cost_value` */
+  path: string;
+  /** What the SDK types expect */
+  expected: string;
+  /** What the service sent */
+  received: string;
+}
+
+/**
+ * All validation problems found in one response
+ */
+export interface ResponseValidationReport {
+  /** Client method that received the response */
+  operation: string;
+  method: string;
+  path: string;
+  issues: ResponseValidationIssue[];
+}
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /** Client method that issued the request, e.g. `getCountyByFips` */
+  operation: string;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** Base URL the request is sent to */
+  baseURL: string;
+  /** Path relative to the base URL */
+  path: string;
+  /** Query string parameters */
+  params?: Record<string, unknown>;
+  /** JSON request body */
+  body?: unknown;
+  /** Headers sent with the request, including authentication */
+  headers: Record<string, string>;
+  /** Attempt number, starting at 1 (greater when retrying) */
+  attempt: number;
+}
+
+/**
+ * Response as seen by middleware
+ */
+export interface MiddlewareResponse {
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** Parsed response body */
+  body: unknown;
+  /** The request that produced this response */
+  request: MiddlewareRequest;
+}
+
+/**
+ * Request pipeline middleware
+ *
+ * `onRequest` hooks run in registration order; `onResponse` and `onError`
+ * hooks run in reverse, so the first middleware wraps all the others.
+ * Each hook may return a replacement object or nothing to keep the current one.
+ */
+export interface Middleware {
+  /** Optional name, for debugging */
+  name?: string;
+  /** Inspect or rewrite the request before it is sent (headers, body, params) */
+  onRequest?: (request: MiddlewareRequest) => MaybePromise<MiddlewareRequest | void>;
+  /** Inspect or rewrite a successful response */
+  onResponse?: (response: MiddlewareResponse) => MaybePromise<MiddlewareResponse | void>;
+  /**
+   * Handle a failed request. Return a response to recover, throw to replace the
+   * error, or return nothing to pass the error on.
+   */
+  onError?: (
+    error: MarketServiceError,
+    request: MiddlewareRequest
+  ) => MaybePromise<MiddlewareResponse | void>;
+}
+
+/**
+ * Request handed to a custom transport
+ */
+export interface TransportRequest extends MiddlewareRequest {
+  /** Aborted when the caller cancels the request */
+  signal?: AbortSignal;
+  /** Timeout for this attempt in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Response returned by a custom transport
+ * Non-2xx statuses are turned into the same typed errors as HTTP responses
+ */
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Sends a request somewhere other than over HTTP, e.g. to an in-memory fake
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: {
+    operation: string;
+    method: string;
+    path: string;
+    params?: Record<string, unknown>;
+    body?: unknown;
+    /** Request headers, with credentials redacted */
+    headers: Record<string, string>;
+  };
+  response: TransportResponse;
+  /** ISO timestamp of when the interaction was recorded */
+  recordedAt: string;
+}
+
+/**
+ * Pluggable storage for recorded interactions
+ * `FileCassetteStore` (from the `/node` entry point) keeps each cassette as a JSON file on disk
+ */
+export interface CassetteStore {
+  /** Interactions for a cassette, or undefined if it has never been recorded */
+  load(name: string): MaybePromise<CassetteInteraction[] | undefined>;
+  save(name: string, interactions: CassetteInteraction[]): MaybePromise<void>;
+}
+
+/**
+ * Record/replay configuration
+ */
+export interface RecordingOptions {
+  /**
+   * - `record`: send requests as usual and save every response to the cassette (overwriting it)
+   * - `replay`: answer requests from the cassette without touching the network
+   */
+  mode: 'record' | 'replay';
+  /** Cassette name, e.g. the test file or suite name */
+  cassette: string;
+  store: CassetteStore;
+  /**
+   * In replay mode, fail requests that have no recorded match with `UNMATCHED_REQUEST`
+   * instead of sending them to the service (default: true)
+   */
+  strict?: boolean;
+  /** Request headers to redact, in addition to `X-API-Key` and `Authorization` */
+  redactHeaders?: string[];
+}
+
+/**
+ * Client-side rate limiter configuration
+ */
+export interface RateLimitOptions {
+  /** Sustained request rate (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once after an idle period (default: requestsPerSecond) */
+  burst?: number;
+  /** Maximum requests in flight at the same time (default: unlimited) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Snapshot of the client-side rate limiter
+ */
+export interface RateLimiterStats {
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Calls currently in flight */
+  active: number;
+  /** When the limiter resumes after a 429, or null if it is not paused */
+  pausedUntil: Date | null;
+}
+
+/**
+ * Circuit breaker state
+ * - `closed`: requests are sent normally
+ * - `open`: requests fail immediately with `CIRCUIT_OPEN`
+ * - `half-open`: one probe request is let through to test whether the service is back
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker for service outages
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures (network errors, timeouts, 5xx) that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before letting a probe through, in milliseconds (default: 30000) */
+  resetTimeoutMs?: number;
+  /**
+   * While the circuit is open, answer cacheable reads from the response cache even when the
+   * entry has expired (default: true). Needs `cache` to be enabled.
+   */
+  serveCachedWhenOpen?: boolean;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+/**
+ * Emitted when the circuit breaker changes state
+ */
+export interface CircuitStateChangeEvent {
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures counted so far */
+  consecutiveFailures: number;
+  /** The failure that opened the circuit */
+  error?: MarketServiceError;
+}
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 300) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Jitter applied to the backoff delay (default: 'full') */
+  jitter?: 'full' | 'equal' | 'none';
+  /** HTTP status codes that trigger a retry (default: [429, 503, 504]) */
+  retryOnStatus?: number[];
+  /** Retry when no response was received, including timeouts (default: true) */
+  retryOnNetworkError?: boolean;
+  /**
+   * Longest `Retry-After` the client is willing to wait, in milliseconds.
+   * Errors asking for a longer wait are thrown immediately (default: 60000)
+   */
+  maxRetryAfterMs?: number;
+  /**
+   * Per-method overrides keyed by client method name, e.g. `getPermitHistory`.
+   * Use `false` to disable retries for a method.
+   */
+  methods?: Record<string, Omit<RetryPolicy, 'methods'> | false>;
+}
+
+/**
+ * Value that may be returned synchronously or as a promise
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * A cached response body
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** When the entry was stored (epoch milliseconds) */
+  storedAt: number;
+  /** How long the entry stays fresh, in milliseconds */
+  ttl: number;
+}
+
+/**
+ * Pluggable storage backend for the response cache
+ * Implement this to share the cache through Redis, a file, etc.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+  clear(): MaybePromise<void>;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface CacheOptions {
+  /** Storage backend (default: in-memory LRU) */
+  store?: CacheStore;
+  /** Maximum entries for the default in-memory store (default: 500) */
+  maxEntries?: number;
+  /**
+   * TTL in milliseconds per client method name, merged over the defaults.
+   * Set a method to 0 to stop caching it.
+   */
+  ttl?: Record<string, number>;
+  /**
+   * How long after expiry a stale entry may still be served while it is
+   * refreshed in the background, in milliseconds (default: 0)
+   */
+  staleWhileRevalidateMs?: number;
+}
+
+/**
+ * Per-call options accepted as the last argument of every client method
+ */
+export interface RequestOptions {
+  /** Cancels the request (and any pending retry) when aborted; rejects with code `ABORTED` */
+  signal?: AbortSignal;
+  /**
+   * Deadline for this call in milliseconds, retries and backoff included; rejects with a
+   * `TimeoutError` once it passes. Without it, the client `timeout` applies to each attempt.
+   */
+  timeout?: number;
+}
+
+/**
+ * Per-call options for create operations
+ */
+export interface CreateOptions extends RequestOptions {
+  /**
+   * Sent as the `Idempotency-Key` header; the service creates the resource at most once per key.
+   * Generated automatically when omitted. Pass your own to make a create safe across process restarts.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * A create answered with the stored result of an earlier request with the same idempotency key
+ */
+export interface IdempotentReplayEvent {
+  /** Client method, e.g. `createCostAdder` */
+  operation: string;
+  method: string;
+  path: string;
+  idempotencyKey: string;
+  status: number;
+}
+
+/**
+ * The client switched API keys after the service rejected the current one
+ * Keys are identified by fingerprint so they never reach logs
+ */
+export interface KeyRotatedEvent {
+  /** Fingerprint of the key the service rejected */
+  previousKey: string;
+  /** Fingerprint of the promoted key the service accepted */
+  currentKey: string;
+  /** Error code that triggered the switch */
+  reason: 'EXPIRED_API_KEY' | 'INVALID_API_KEY';
+  /** Client method whose request confirmed the new key */
+  operation: string;
 }
 
 /**
@@ -120,6 +642,12 @@ export interface ApiResponse<T> {
   error?: string;
   /** Error code for programmatic error handling */
   errorCode?: string;
+  /** Per-field validation failures (400/422 responses) */
+  details?: ValidationFieldError[] | Record<string, string>;
+  /** Upgrade prompt for premium features (403 responses) */
+  upgrade_message?: string;
+  /** Service-assigned request ID, if not sent as an `X-Request-Id` header */
+  requestId?: string;
 }
 
 /**
@@ -134,20 +662,17 @@ export type AuthErrorCode =
   | 'INVALID_JWT'
   | 'EXPIRED_JWT';
 
-/**
- * Authentication error response
- */
-export interface AuthError {
-  code: AuthErrorCode;
-  message: string;
-  retryAfter?: number; // For rate limiting, seconds until retry allowed
-}
-
 // ============================================
 // MARKET TYPES
 // ============================================
 
-export interface Market {
+/**
+ * Type of response date fields
+ * `Date | string` by default; narrowed to `Date` for clients created with `hydrateDates: true`
+ */
+export type DateField = Date | string;
+
+export interface Market<D extends DateField = DateField> {
   id: string; // UUID
   legacy_id?: number;
   name: string;
@@ -159,8 +684,8 @@ export interface Market {
   parent_market_id?: string;
   serviceable_counties?: ServiceableCounty[];
   active: boolean;
-  created_at: Date | string;
-  updated_at: Date | string;
+  created_at: D;
+  updated_at: D;
 }
 
 export interface ServiceableCounty {
@@ -169,7 +694,7 @@ export interface ServiceableCounty {
   state_code: string;
 }
 
-export interface CostAdder {
+export interface CostAdder<D extends DateField = DateField> {
   id: string; // UUID
   market_id: string;
   adder_name: string;
@@ -180,11 +705,11 @@ export interface CostAdder {
   county_fips?: string;
   display_on_proposal: boolean;
   display_name?: string;
-  effective_date?: Date | string;
-  expiration_date?: Date | string;
+  effective_date?: D;
+  expiration_date?: D;
   active: boolean;
-  created_at: Date | string;
-  updated_at: Date | string;
+  created_at: D;
+  updated_at: D;
 }
 
 export interface MarketLookupRequest {
@@ -194,12 +719,109 @@ export interface MarketLookupRequest {
   state_code?: string;
 }
 
-export interface MarketLookupResponse {
-  market: Market | null;
-  cost_adders: CostAdder[];
+export interface MarketLookupResponse<D extends DateField = DateField> {
+  market: Market<D> | null;
+  cost_adders: CostAdder<D>[];
   matched_by: 'county' | 'zip' | 'state' | 'none';
 }
 
+/**
+ * Which active cost adders to return (see `getActiveCostAdders`)
+ */
+export interface ActiveCostAdderOptions {
+  quoteType?: 'retail' | 'lom';
+  countyFips?: string;
+  /** Date the adders must be in effect on (default: now) */
+  asOf?: Date | string;
+}
+
+/**
+ * Date range for `getCostAdderTimeline`, both ends inclusive
+ */
+export interface CostAdderTimelineRange {
+  from: Date | string;
+  /** A calendar date (`2025-12-31` or UTC midnight) covers that whole UTC day; other instants are used as given */
+  to: Date | string;
+}
+
+/**
+ * A stretch of time during which the same cost adders apply
+ */
+export interface CostAdderPeriod<D extends DateField = DateField> {
+  /** First instant of the period */
+  from: Date;
+  /** Last instant of the period (inclusive) */
+  to: Date;
+  costAdders: CostAdder<D>[];
+}
+
+/**
+ * Kinds of problem `validateCostAdders` reports
+ * - `DUPLICATE_ADDER`: same name, county and dates as another adder
+ * - `OVERLAPPING_DATES`: same name and county as another adder, with overlapping dates
+ * - `COUNTY_SHADOWS_MARKET`: a county adder overlaps a market-wide adder of the same name
+ * - `NEGATIVE_VALUE`: `cost_value` below zero
+ * - `VALUE_OUT_OF_RANGE`: a percentage over 100, or an amount above the configured limits
+ * - `INVERTED_DATES`: `effective_date` after `expiration_date`
+ * - `COUNTY_NOT_SERVICEABLE`: `county_fips` is not one of the market's serviceable counties
+ */
+export type CostAdderIssueCode =
+  | 'DUPLICATE_ADDER'
+  | 'OVERLAPPING_DATES'
+  | 'COUNTY_SHADOWS_MARKET'
+  | 'NEGATIVE_VALUE'
+  | 'VALUE_OUT_OF_RANGE'
+  | 'INVERTED_DATES'
+  | 'COUNTY_NOT_SERVICEABLE';
+
+export interface CostAdderIssue {
+  code: CostAdderIssueCode;
+  /** Errors double-charge or misprice quotes; warnings are worth a look */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Adders involved, e.g. both halves of a duplicate */
+  adderIds: string[];
+}
+
+export interface CostAdderValidationOptions {
+  /** The market's serviceable counties; county adders outside them are reported */
+  serviceableCounties?: Array<string | ServiceableCounty>;
+  /** Amounts above these limits are reported as warnings */
+  limits?: {
+    /** Largest `fixed` value, in dollars (default: 100000) */
+    maxFixed?: number;
+    /** Largest `per_square` value, in dollars (default: 1000) */
+    maxPerSquare?: number;
+  };
+}
+
+export interface CostAdderValidationReport {
+  /** True when there are no error-severity issues */
+  valid: boolean;
+  issues: CostAdderIssue[];
+}
+
+/**
+ * Options for `createCostAdder` / `updateCostAdder`
+ */
+export interface CostAdderWriteOptions {
+  /**
+   * Check the adder against the market's other adders before writing it.
+   * Errors throw `CostAdderConflictError` (code `COST_ADDER_CONFLICT`); warnings are logged.
+   */
+  preflight?: boolean;
+  /** Market the adder belongs to; required for `preflight` on `updateCostAdder` */
+  marketId?: string;
+}
+
+/**
+ * Brand and client a scoped client view acts for (see `client.forTenant`)
+ */
+export interface TenantScope {
+  brandId: number;
+  clientId: number;
+}
+
 export interface CreateMarketRequest {
   name: string;
   description?: string;
@@ -231,7 +853,9 @@ export interface CreateCostAdderRequest {
   county_fips?: string;
   display_on_proposal?: boolean;
   display_name?: string;
+  /** Calendar date; Date values are sent as YYYY-MM-DD (UTC) */
   effective_date?: Date | string;
+  /** Calendar date; Date values are sent as YYYY-MM-DD (UTC) */
   expiration_date?: Date | string;
 }
 
@@ -244,7 +868,9 @@ export interface UpdateCostAdderRequest {
   county_fips?: string;
   display_on_proposal?: boolean;
   display_name?: string;
+  /** Calendar date; Date values are sent as YYYY-MM-DD (UTC) */
   effective_date?: Date | string;
+  /** Calendar date; Date values are sent as YYYY-MM-DD (UTC) */
   expiration_date?: Date | string;
   active?: boolean;
 }
@@ -256,7 +882,7 @@ export interface UpdateCostAdderRequest {
 /**
  * County economic and demographic data
  */
-export interface CountyData {
+export interface CountyData<D extends DateField = DateField> {
   county_fips: string;
   county_name: string;
   state_code: string;
@@ -284,8 +910,8 @@ export interface CountyData {
   estimated_annual_roof_replacements?: number;
   /** Sources for the data (e.g., { "census": "2022", "storm": "NOAA" }) */
   data_sources?: Record<string, string>;
-  created_at?: Date | string;
-  updated_at?: Date | string;
+  created_at?: D;
+  updated_at?: D;
 }
 
 /**
@@ -306,6 +932,47 @@ export interface CountyDataFilters {
   offset?: number;
 }
 
+/**
+ * One page of a paginated list
+ */
+export interface Page<T> {
+  items: T[];
+  /** Total matching items, when the service reports it */
+  total?: number;
+  /** Offset this page starts at */
+  offset: number;
+  /** Offset of the next page, or null when this is the last page */
+  nextOffset: number | null;
+}
+
+/**
+ * Options for bulk county fetches
+ */
+export interface CountyBatchOptions {
+  /** County requests in flight at once (default: 8) */
+  concurrency?: number;
+}
+
+/**
+ * A FIPS code that could not be fetched
+ */
+export interface CountyBatchFailure {
+  county_fips: string;
+  error: MarketServiceError;
+}
+
+/**
+ * Result of a bulk county fetch
+ */
+export interface CountyBatchResult<D extends DateField = DateField> {
+  /** Counties that were found, in request order */
+  counties: CountyData<D>[];
+  /** FIPS codes the service has no data for */
+  missing: string[];
+  /** FIPS codes whose request failed, with the error for each */
+  failed: CountyBatchFailure[];
+}
+
 /**
  * Aggregated stats for a set of counties
  */
@@ -420,29 +1087,300 @@ export type PremiumFeature =
   | 'market_intelligence'
   | 'competitor_analysis';
 
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * How an amount is rounded to whole cents
+ * - `half-up`: ties round away from zero (default)
+ * - `half-even`: ties round to the even neighbour (banker's rounding)
+ * - `ceil` / `floor`: always round up / down
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'ceil' | 'floor';
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  /** Round to a multiple of this many cents, e.g. 100 for whole dollars (default: 1) */
+  incrementCents?: number;
+}
+
+/**
+ * What a percentage adder is a percentage of
+ * - `base`: the quote's base price
+ * - `subtotal`: the base price plus every adder evaluated before it
+ */
+export type PercentageBasis = 'base' | 'subtotal';
+
+/**
+ * Pricing settings for a single cost adder
+ */
+export interface AdderPricingRule {
+  /** Overrides `PricingOptions.percentageBasis` (percentage adders only) */
+  basis?: PercentageBasis;
+  /** Overrides `PricingOptions.rounding` */
+  rounding?: RoundingRule;
+  /** Lower bound for the rounded amount, in cents */
+  minCents?: number;
+  /** Upper bound for the rounded amount, in cents */
+  maxCents?: number;
+}
+
+export interface PricingOptions {
+  /** Default rounding for every adder (default: `half-up` to the cent) */
+  rounding?: RoundingRule;
+  /** Default basis for percentage adders (default: `base`) */
+  percentageBasis?: PercentageBasis;
+  /** Per-adder settings, keyed by cost adder ID */
+  rules?: Record<string, AdderPricingRule>;
+  /** Leave out adders whose effective/expiration dates do not cover this date */
+  asOf?: Date | string;
+}
+
+/**
+ * Quote inputs for the pricing engine; money is in dollars, as in cost adders
+ */
+export interface PricingInput {
+  basePrice: number;
+  roofSquares: number;
+}
+
+/**
+ * One evaluated cost adder
+ */
+export interface PriceLine {
+  adderId: string;
+  name: string;
+  type: CostAdder['adder_type'];
+  /** Position in evaluation order, starting at 1 */
+  step: number;
+  /** Values the amount was computed from */
+  inputs: {
+    costValue: number;
+    roofSquares?: number;
+    basis?: PercentageBasis;
+    /** Amount the percentage was applied to, in cents */
+    basisCents?: number;
+  };
+  /** Exact amount before rounding, as a decimal string of cents (e.g. `"4462.5"`) */
+  exactCents: string;
+  rounding: RoundingRule;
+  /** Amount after rounding, before clamping */
+  roundedCents: number;
+  /** Set when `minCents` or `maxCents` changed the amount */
+  clamped?: 'min' | 'max';
+  /** Final amount of this line, in cents */
+  amountCents: number;
+  /** The adder's `display_on_proposal`; hidden lines are rolled into the base price on proposals */
+  displayOnProposal: boolean;
+}
+
+/**
+ * Result of pricing a set of cost adders against a quote
+ */
+export interface CostAdderPricing {
+  basePriceCents: number;
+  /** Lines in evaluation order: fixed, per-square, percentage of base, percentage of subtotal */
+  lines: PriceLine[];
+  totalAdderCents: number;
+  /** Base price plus all adders */
+  totalCents: number;
+}
+
+/**
+ * Everything needed to price a roof at a location
+ * Give at least one of `zip`, `countyFips` or `stateCode`
+ */
+export interface PriceQuoteRequest extends PricingInput {
+  brandId: number;
+  zip?: string;
+  countyFips?: string;
+  stateCode?: string;
+  quoteType: 'retail' | 'lom';
+  /** Date the quote is priced for; adders outside their effective window are skipped (default: now) */
+  asOf?: Date | string;
+  /** Rounding, percentage basis and per-adder rules */
+  pricing?: PricingOptions;
+}
+
+/**
+ * A priced quote: the matched market, the adders that apply and the totals
+ */
+export interface QuotePrice<D extends DateField = DateField> extends CostAdderPricing {
+  market: Market<D> | null;
+  matchedBy: MarketLookupResponse['matched_by'];
+  /** Adders that apply to the quote type, county and date */
+  costAdders: CostAdder<D>[];
+  /** Lines for adders shown on the proposal (`display_on_proposal`) */
+  proposalLines: PriceLine[];
+  /** Date the adders were selected for */
+  asOf: Date;
+}
+
+/**
+ * Formatting for `buildProposal`
+ */
+export interface ProposalOptions {
+  /** BCP 47 locale for amounts (default: `en-US`) */
+  locale?: string;
+  /** ISO 4217 currency code (default: `USD`) */
+  currency?: string;
+  /** Label for the base price line (default: `Base price`) */
+  basePriceLabel?: string;
+  /** Label for the total line (default: `Total`) */
+  totalLabel?: string;
+}
+
+/**
+ * A customer-facing proposal line
+ */
+export interface ProposalLineItem {
+  label: string;
+  /** Amount in cents, rounded to the currency's smallest unit (whole yen for JPY) */
+  amountCents: number;
+  /** Amount formatted for the proposal's locale and currency */
+  formatted: string;
+  /** Cost adder behind the line; absent on the base price and total */
+  adderId?: string;
+}
+
+/**
+ * Customer-facing proposal built from a priced quote
+ * `basePrice` plus every line item always equals `total`
+ */
+export interface Proposal {
+  locale: string;
+  currency: string;
+  /** Base price with hidden adders rolled in */
+  basePrice: ProposalLineItem;
+  /** Visible adders, in evaluation order */
+  lineItems: ProposalLineItem[];
+  total: ProposalLineItem;
+  /** Adders rolled into the base price, for internal audit */
+  hiddenAdderIds: string[];
+}
+
+// ============================================
+// TESTING
+// ============================================
+
+/**
+ * Data to seed the in-memory fake service with
+ * Missing fields get sensible defaults (generated IDs, active, timestamps of now)
+ */
+export interface FakeMarketServiceSeed {
+  markets?: Array<Partial<Market>>;
+  /** Cost adders; `market_id` is required */
+  costAdders?: Array<Partial<CostAdder> & { market_id: string }>;
+  counties?: CountyData[];
+  permits?: PermitHistory[];
+  /** ZIP code to county FIPS, used by `lookupMarket` with a `zip` */
+  zipCodes?: Record<string, string>;
+  /** Answer for `checkPermitHistoryAccess` and the premium gate (default: full access) */
+  permitAccess?: FeatureAccessResult;
+}
+
+/**
+ * Options for an injected error
+ */
+export interface FakeErrorOptions {
+  /** Only fail calls from this client method, e.g. `getCountyByFips` (default: any) */
+  operation?: string;
+  /** How many calls fail before the service recovers (default: 1, `Infinity` for all) */
+  times?: number;
+  /** HTTP status (default: derived from the code, e.g. 429 for `RATE_LIMITED`) */
+  status?: number;
+  message?: string;
+  /** `Retry-After` seconds sent with the error */
+  retryAfter?: number;
+}
+
+/**
+ * A call received by the fake service
+ */
+export interface FakeServiceCall {
+  operation: string;
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+/**
+ * Options for `FakeMarketServiceClient` / `createTestClient`
+ * Accepts the usual client config; `apiKey` defaults to a test key
+ */
+export interface FakeMarketServiceClientOptions extends Partial<Omit<MarketServiceConfig, 'transport'>> {
+  /** Initial data */
+  seed?: FakeMarketServiceSeed;
+  /** Simulated latency per request in milliseconds (default: 0) */
+  latencyMs?: number;
+}
+
 // ============================================
 // ERROR TYPES
 // ============================================
 
+/**
+ * Request context attached to errors
+ */
+export interface MarketServiceErrorContext {
+  /** HTTP method of the failed request */
+  method?: string;
+  /** API path of the failed request */
+  path?: string;
+  /** Parsed response body, if the service responded */
+  responseBody?: unknown;
+  /** Request ID from the `X-Request-Id` header or response body */
+  requestId?: string;
+}
+
+/**
+ * A single field-level validation failure
+ */
+export interface ValidationFieldError {
+  field: string;
+  message: string;
+  code?: string;
+}
+
 /**
  * SDK-specific error class
+ *
+ * Errors from the service are thrown as one of the subclasses below
+ * (AuthError, NotFoundError, ValidationError, ...) so callers can use `instanceof`.
  */
 export class MarketServiceError extends Error {
   public readonly code: string;
   public readonly statusCode?: number;
   public readonly retryAfter?: number;
+  public readonly method?: string;
+  public readonly path?: string;
+  public readonly responseBody?: unknown;
+  public readonly requestId?: string;
 
-  constructor(message: string, code: string, statusCode?: number, retryAfter?: number) {
+  constructor(
+    message: string,
+    code: string,
+    statusCode?: number,
+    retryAfter?: number,
+    context: MarketServiceErrorContext = {}
+  ) {
     super(message);
     this.name = 'MarketServiceError';
     this.code = code;
     this.statusCode = statusCode;
     this.retryAfter = retryAfter;
+    this.method = context.method;
+    this.path = context.path;
+    this.responseBody = context.responseBody;
+    this.requestId = context.requestId;
   }
 
   /** Check if this is an authentication error */
   isAuthError(): boolean {
-    return [
+    return this instanceof AuthError || [
       'INVALID_API_KEY',
       'EXPIRED_API_KEY',
       'MISSING_API_KEY',
@@ -461,4 +1399,182 @@ export class MarketServiceError extends Error {
   isRetryable(): boolean {
     return this.isRateLimitError() || this.statusCode === 503 || this.statusCode === 504;
   }
+
+  /** Structured representation for logging */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      statusCode: this.statusCode,
+      method: this.method,
+      path: this.path,
+      requestId: this.requestId,
+      retryAfter: this.retryAfter,
+    };
+  }
+}
+
+/**
+ * The circuit breaker is open and the request was not sent
+ * `retryAfter` is the number of seconds until the next probe is allowed
+ */
+export class CircuitOpenError extends MarketServiceError {
+  public readonly state: CircuitState;
+
+  constructor(message: string, state: CircuitState, retryAfter?: number, context?: MarketServiceErrorContext) {
+    super(message, 'CIRCUIT_OPEN', undefined, retryAfter, context);
+    this.name = 'CircuitOpenError';
+    this.state = state;
+  }
+}
+
+/**
+ * A cost adder write was stopped by its pre-flight check (client-side)
+ */
+export class CostAdderConflictError extends MarketServiceError {
+  public readonly issues: CostAdderIssue[];
+
+  constructor(message: string, issues: CostAdderIssue[], context?: MarketServiceErrorContext) {
+    super(message, 'COST_ADDER_CONFLICT', undefined, undefined, context);
+    this.name = 'CostAdderConflictError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Authentication or authorization failure (401, and 403 not caused by a premium gate)
+ * `code` keeps the service's value, e.g. `EXPIRED_API_KEY` or `EXPIRED_JWT`
+ */
+export class AuthError extends MarketServiceError {
+  constructor(message: string, code: string, statusCode?: number, context?: MarketServiceErrorContext) {
+    super(message, code, statusCode, undefined, context);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Requested resource does not exist (404)
+ */
+export class NotFoundError extends MarketServiceError {
+  constructor(message: string, code: string = 'NOT_FOUND', context?: MarketServiceErrorContext) {
+    super(message, code, 404, undefined, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The service no longer supports this SDK version and `versionPolicy` blocks further calls
+ * Raised client-side; no request is sent
+ */
+export class SDKUnsupportedError extends MarketServiceError {
+  /** Version status that caused the block */
+  public readonly versionStatus: SDKVersionStatus;
+
+  constructor(message: string, versionStatus: SDKVersionStatus) {
+    super(message, 'SDK_UNSUPPORTED');
+    this.name = 'SDKUnsupportedError';
+    this.versionStatus = versionStatus;
+  }
+}
+
+/**
+ * A tenant-scoped client was asked to read or change another tenant's data
+ * Raised client-side, before any write is sent
+ */
+export class TenantMismatchError extends MarketServiceError {
+  /** Tenant the scoped client acts for */
+  public readonly tenant: TenantScope;
+
+  constructor(message: string, tenant: TenantScope, context?: MarketServiceErrorContext) {
+    super(message, 'TENANT_MISMATCH', undefined, undefined, context);
+    this.name = 'TenantMismatchError';
+    this.tenant = tenant;
+  }
+}
+
+/**
+ * Request was rejected as invalid (400/422)
+ */
+export class ValidationError extends MarketServiceError {
+  /** Per-field failures, when the service reports them */
+  public readonly fieldErrors: ValidationFieldError[];
+
+  constructor(
+    message: string,
+    code: string,
+    statusCode: number,
+    fieldErrors: ValidationFieldError[] = [],
+    context?: MarketServiceErrorContext
+  ) {
+    super(message, code, statusCode, undefined, context);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends MarketServiceError {
+  constructor(message: string, retryAfter?: number, context?: MarketServiceErrorContext) {
+    super(message, 'RATE_LIMITED', 429, retryAfter, context);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Premium feature is not included in the client's plan (403 with an upgrade message)
+ */
+export class PremiumFeatureError extends MarketServiceError {
+  /** Upgrade prompt from the service, suitable for showing to users */
+  public readonly upgradeMessage?: string;
+
+  constructor(
+    message: string,
+    code: string,
+    upgradeMessage?: string,
+    context?: MarketServiceErrorContext
+  ) {
+    super(message, code, 403, undefined, context);
+    this.name = 'PremiumFeatureError';
+    this.upgradeMessage = upgradeMessage;
+  }
+}
+
+/**
+ * The service responded with data that does not match the SDK types (strict validation mode)
+ */
+export class ResponseValidationError extends MarketServiceError {
+  public readonly issues: ResponseValidationIssue[];
+
+  constructor(message: string, issues: ResponseValidationIssue[], context?: MarketServiceErrorContext) {
+    super(message, 'RESPONSE_VALIDATION_FAILED', undefined, undefined, context);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * No response was received from the service
+ */
+export class NetworkError extends MarketServiceError {
+  constructor(message: string, code: string = 'NETWORK_ERROR', context?: MarketServiceErrorContext) {
+    super(message, code, undefined, undefined, context);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request exceeded its timeout
+ */
+export class TimeoutError extends NetworkError {
+  /** Timeout that was exceeded, in milliseconds */
+  public readonly timeoutMs?: number;
+
+  constructor(message: string, timeoutMs?: number, context?: MarketServiceErrorContext) {
+    super(message, 'TIMEOUT', context);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
 }
@@ -0,0 +1,68 @@
+/**
+ * SDK identity and version comparison
+ */
+
+import { PACKAGE_NAME, PACKAGE_VERSION } from './packageInfo';
+
+/** Published package name, sent as `X-SDK-Name` */
+export const SDK_NAME: string = PACKAGE_NAME;
+
+/** Published package version, sent as `X-SDK-Version` */
+export const SDK_VERSION: string = PACKAGE_VERSION;
+
+interface ParsedVersion {
+  core: number[];
+  prerelease: string[];
+}
+
+function parseVersion(version: string): ParsedVersion {
+  // Build metadata (`+...`) does not affect precedence
+  const [main, ...rest] = version.trim().replace(/^v/i, '').split('+')[0].split('-');
+  return {
+    core: main.split('.').map((part) => Number(part) || 0),
+    prerelease: rest.length ? rest.join('-').split('.') : [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const numericA = /^\d+$/.test(a);
+  const numericB = /^\d+$/.test(b);
+  if (numericA && numericB) return Math.sign(Number(a) - Number(b));
+  // Numeric identifiers have lower precedence than alphanumeric ones
+  if (numericA) return -1;
+  if (numericB) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare semantic versions, including prereleases (`1.2.0-beta.1 < 1.2.0-rc.1 < 1.2.0`)
+ * Returns: -1 if a < b, 0 if a === b, 1 if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const versionA = parseVersion(a);
+  const versionB = parseVersion(b);
+
+  for (let i = 0; i < 3; i++) {
+    const partA = versionA.core[i] || 0;
+    const partB = versionB.core[i] || 0;
+    if (partA < partB) return -1;
+    if (partA > partB) return 1;
+  }
+
+  // A release has higher precedence than any of its prereleases
+  if (!versionA.prerelease.length || !versionB.prerelease.length) {
+    return Math.sign(versionB.prerelease.length - versionA.prerelease.length);
+  }
+
+  const length = Math.max(versionA.prerelease.length, versionB.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const idA = versionA.prerelease[i];
+    const idB = versionB.prerelease[i];
+    // A shorter prerelease has lower precedence when all preceding identifiers are equal
+    if (idA === undefined) return -1;
+    if (idB === undefined) return 1;
+    const result = compareIdentifiers(idA, idB);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
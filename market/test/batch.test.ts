@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { mapSettled } from '../src/batch';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceClientOptions, MarketServiceError, TimeoutError } from '../src/types';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function clientWithCounties(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({
+    ...options,
+    seed: {
+      counties: ['08001', '08005', '08031'].map((county_fips) => ({
+        county_fips,
+        county_name: `County ${county_fips}`,
+        state_code: 'CO',
+      })),
+    },
+  });
+}
+
+describe('mapSettled', () => {
+  it('keeps input order and never runs more than `concurrency` tasks at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapSettled([30, 10, 20, 5, 15], 2, async (ms) => {
+      peak = Math.max(peak, ++running);
+      await wait(ms);
+      running--;
+      if (ms === 20) throw new Error('boom');
+      return ms;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled']);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 30 });
+  });
+});
+
+describe('getCountiesByFips', () => {
+  it('returns found counties in request order and reports missing ones', async () => {
+    const client = clientWithCounties();
+
+    const result = await client.getCountiesByFips(['08031', '99999', '08001', '08031']);
+
+    expect(result.counties.map((county) => county.county_fips)).toEqual(['08031', '08001']);
+    expect(result.missing).toEqual(['99999']);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('uses the documented single-county endpoint', async () => {
+    const client = clientWithCounties();
+
+    await client.getCountiesByFips(['08001', '08005']);
+
+    expect(client.calls.map((call) => `${call.method} ${call.path}`)).toEqual([
+      'GET /api/counties/08001',
+      'GET /api/counties/08005',
+    ]);
+  });
+
+  it('reports failed counties with their errors and keeps the rest', async () => {
+    const client = clientWithCounties();
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    const result = await client.getCountiesByFips(['08001', '08005'], { concurrency: 1 });
+
+    expect(result.counties.map((county) => county.county_fips)).toEqual(['08005']);
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].county_fips).toBe('08001');
+    expect(result.failed[0].error).toBeInstanceOf(MarketServiceError);
+    expect(result.failed[0].error.statusCode).toBe(503);
+  });
+
+  it('reuses cached counties', async () => {
+    const client = clientWithCounties({ cache: true });
+
+    await client.getCountyByFips('08031');
+    await client.getCountiesByFips(['08001', '08031']);
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('rejects the whole call when aborted', async () => {
+    const client = clientWithCounties({ latencyMs: 20 });
+    const controller = new AbortController();
+
+    const pending = client.getCountiesByFips(['08001', '08005', '08031'], { concurrency: 1 }, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('treats a per-call timeout as a deadline for the whole list', async () => {
+    // The fake does not cut requests short, so only requests starting after the deadline fail
+    const client = clientWithCounties({ latencyMs: 40 });
+
+    const result = await client.getCountiesByFips(['08001', '08005', '08031'], { concurrency: 1 }, { timeout: 60 });
+
+    expect(result.counties.map((county) => county.county_fips)).toEqual(['08001', '08005']);
+    expect(result.failed.map((failure) => failure.county_fips)).toEqual(['08031']);
+    expect(result.failed[0].error).toBeInstanceOf(TimeoutError);
+    expect(client.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCacheStore } from '../src/cache';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceClientOptions } from '../src/types';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function cachedClient(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({
+    cache: true,
+    ...options,
+    seed: {
+      markets: [{ id: 'denver', name: 'Denver Metro' }],
+      counties: [{ county_fips: '08031', county_name: 'Denver', state_code: 'CO' }],
+    },
+  });
+}
+
+describe('response cache', () => {
+  it('answers repeated reads from the cache', async () => {
+    const client = cachedClient();
+
+    await client.getMarketById('denver');
+    const market = await client.getMarketById('denver');
+
+    expect(market.name).toBe('Denver Metro');
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('hands out copies that callers can mutate', async () => {
+    const client = cachedClient();
+
+    const first = await client.getMarketById('denver');
+    first.name = 'Mutated';
+
+    expect((await client.getMarketById('denver')).name).toBe('Denver Metro');
+  });
+
+  it('does not cache methods whose TTL is 0', async () => {
+    const client = cachedClient({ cache: { ttl: { getMarketById: 0 } } });
+
+    await client.getMarketById('denver');
+    await client.getMarketById('denver');
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('reloads an entry once its TTL has passed', async () => {
+    const client = cachedClient({ cache: { ttl: { getMarketById: 10 } } });
+
+    await client.getMarketById('denver');
+    await wait(20);
+    await client.getMarketById('denver');
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('serves a stale entry while refreshing it in the background', async () => {
+    const client = cachedClient({ cache: { ttl: { getMarketById: 10 }, staleWhileRevalidateMs: 1000 } });
+
+    await client.getMarketById('denver');
+    // Bypasses the client so the cached entry is not dropped
+    client.service.seed({ markets: [{ id: 'denver', name: 'Denver Metro Area' }] });
+    await wait(20);
+
+    expect((await client.getMarketById('denver')).name).toBe('Denver Metro');
+    await wait(5);
+    expect((await client.getMarketById('denver')).name).toBe('Denver Metro Area');
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('invalidates affected entries after a mutation', async () => {
+    const client = cachedClient();
+
+    await client.getMarketById('denver');
+    await client.getCountyByFips('08031');
+    await client.updateMarket('denver', { name: 'Denver Metro Area' });
+
+    expect((await client.getMarketById('denver')).name).toBe('Denver Metro Area');
+    await client.getCountyByFips('08031');
+    // Initial reads, the update and the reload; the county entry survived
+    expect(client.calls).toHaveLength(4);
+  });
+
+  it('invalidates by path prefix, pattern or everything', async () => {
+    const client = cachedClient();
+    const reads = () => Promise.all([client.getMarketById('denver'), client.getCountyByFips('08031')]);
+
+    await reads();
+    await client.invalidateCache('/api/counties');
+    await reads();
+    expect(client.calls.map((call) => call.operation)).toEqual([
+      'getMarketById',
+      'getCountyByFips',
+      'getCountyByFips',
+    ]);
+
+    await client.invalidateCache(/denver/);
+    await client.getMarketById('denver');
+    expect(client.calls).toHaveLength(4);
+
+    await client.invalidateCache();
+    await reads();
+    expect(client.calls).toHaveLength(6);
+  });
+
+  it('does not store a response that was loading when the cache was invalidated', async () => {
+    const client = cachedClient({ latencyMs: 20 });
+
+    const pending = client.getMarketById('denver');
+    await wait(5);
+    await client.invalidateCache();
+    await pending;
+    await client.getMarketById('denver');
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('keeps users apart in a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const alice = cachedClient({ apiKey: 'mk_alice', cache: { store } });
+    const bob = cachedClient({ apiKey: 'mk_bob', cache: { store } });
+
+    await alice.getMarketById('denver');
+    await bob.getMarketById('denver');
+
+    expect(bob.calls).toHaveLength(1);
+    expect(store.keys()).toHaveLength(2);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    const entry = { value: 1, storedAt: 0, ttl: 1000 };
+
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+
+    expect(store.keys().sort()).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { createTestClient, InMemoryMarketService } from '../src/testing';
+import { TimeoutError, Transport } from '../src/types';
+
+const seed = { markets: [{ id: 'denver', name: 'Denver Metro' }] };
+
+/** Transport that takes `latencyMs` to answer and honors the attempt timeout like HTTP would */
+function slowTransport(latencyMs: number, timeouts: number[]): Transport {
+  const service = new InMemoryMarketService(seed);
+  return (request) => {
+    timeouts.push(request.timeout);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => (latencyMs > request.timeout ? reject(new TimeoutError('Timed out', request.timeout)) : resolve(service.handle(request))),
+        Math.min(latencyMs, request.timeout)
+      );
+      request.signal?.addEventListener('abort', () => clearTimeout(timer));
+    });
+  };
+}
+
+describe('cancellation', () => {
+  it('rejects with ABORTED when the signal fires during a request', async () => {
+    const client = createTestClient({ seed, latencyMs: 50 });
+    const controller = new AbortController();
+
+    const pending = client.getMarketById('denver', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('does not send a request whose signal has already fired', async () => {
+    const client = createTestClient({ seed });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.getMarketById('denver', { signal: controller.signal })).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+    expect(client.calls).toHaveLength(0);
+  });
+
+  it('cancels a pending retry', async () => {
+    const client = createTestClient({ seed, retry: { baseDelayMs: 10000, jitter: 'none' } });
+    client.failNext('SERVICE_UNAVAILABLE');
+    const controller = new AbortController();
+
+    const started = Date.now();
+    const pending = client.getMarketById('denver', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(client.calls).toHaveLength(1);
+  });
+});
+
+describe('timeouts', () => {
+  it('gives each attempt the client timeout', async () => {
+    const timeouts: number[] = [];
+    const client = new MarketServiceClient({
+      baseURL: 'http://market-service.test',
+      apiKey: 'mk_test_key',
+      timeout: 30,
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: 'none' },
+      transport: slowTransport(1000, timeouts),
+    });
+
+    await expect(client.getMarketById('denver')).rejects.toBeInstanceOf(TimeoutError);
+    expect(timeouts).toEqual([30, 30, 30]);
+  });
+
+  it('treats a per-call timeout as a deadline for the whole call, retries included', async () => {
+    const timeouts: number[] = [];
+    const client = new MarketServiceClient({
+      baseURL: 'http://market-service.test',
+      apiKey: 'mk_test_key',
+      retry: { maxAttempts: 10, baseDelayMs: 1, jitter: 'none' },
+      transport: slowTransport(1000, timeouts),
+    });
+
+    const started = Date.now();
+    await expect(client.getMarketById('denver', { timeout: 100 })).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(Date.now() - started).toBeLessThan(200);
+    expect(timeouts[0]).toBeGreaterThan(90);
+    expect(timeouts[0]).toBeLessThanOrEqual(100);
+    // Later attempts only get what is left of the deadline
+    expect(timeouts.slice(1).every((timeout) => timeout < 100)).toBe(true);
+  });
+
+  it('does not start a retry whose backoff would pass the deadline', async () => {
+    const client = createTestClient({ seed, retry: { baseDelayMs: 500, jitter: 'none' } });
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    const started = Date.now();
+    await expect(client.getMarketById('denver', { timeout: 200 })).rejects.toMatchObject({ statusCode: 503 });
+
+    expect(Date.now() - started).toBeLessThan(100);
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('succeeds when an attempt answers within the deadline', async () => {
+    const timeouts: number[] = [];
+    const client = new MarketServiceClient({
+      baseURL: 'http://market-service.test',
+      apiKey: 'mk_test_key',
+      transport: slowTransport(10, timeouts),
+    });
+
+    await expect(client.getMarketById('denver', { timeout: 500 })).resolves.toMatchObject({ id: 'denver' });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { CircuitOpenError, CircuitStateChangeEvent, FakeMarketServiceClientOptions } from '../src/types';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function clientWithBreaker(options: FakeMarketServiceClientOptions = {}) {
+  const events: CircuitStateChangeEvent[] = [];
+  const client = createTestClient({
+    circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50, onStateChange: (event) => events.push(event) },
+    ...options,
+    seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] },
+  });
+  return { client, events };
+}
+
+describe('circuit breaker', () => {
+  it('opens after failureThreshold consecutive outages and fails fast without sending', async () => {
+    const { client, events } = clientWithBreaker();
+    client.failNext('SERVICE_UNAVAILABLE', { times: 2 });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.getCircuitState()).toBe('closed');
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.getCircuitState()).toBe('open');
+
+    const error = await client.getMarketById('denver').catch((caught) => caught);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', state: 'open' });
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(client.calls).toHaveLength(2);
+    expect(events).toEqual([expect.objectContaining({ from: 'closed', to: 'open', consecutiveFailures: 2 })]);
+  });
+
+  it('does not count client errors as outages', async () => {
+    const { client } = clientWithBreaker();
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    await expect(client.getMarketById('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    client.failNext('NETWORK_ERROR');
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('ignores errors that are not service errors', async () => {
+    let broken = false;
+    const { client } = clientWithBreaker({
+      middleware: [
+        {
+          onRequest: () => {
+            if (broken) throw new Error('Bug in middleware');
+          },
+        },
+      ],
+    });
+    client.failNext('SERVICE_UNAVAILABLE', { times: 2 });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    broken = true;
+    await expect(client.getMarketById('denver')).rejects.toThrow('Bug in middleware');
+    broken = false;
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+
+    // The middleware failure neither reset the count nor counted as an outage
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  it('lets one probe through after resetTimeoutMs and closes when it succeeds', async () => {
+    const { client, events } = clientWithBreaker({ latencyMs: 10 });
+    client.failNext('TIMEOUT', { times: 2 });
+    await client.getMarketById('denver').catch(() => undefined);
+    await client.getMarketById('denver').catch(() => undefined);
+
+    await sleep(60);
+    expect(client.getCircuitState()).toBe('half-open');
+
+    const probe = client.getMarketById('denver');
+    // A second request while the probe is in flight is not sent
+    await expect(client.getMarkets()).rejects.toMatchObject({
+      code: 'CIRCUIT_OPEN',
+      state: 'half-open',
+    });
+    await expect(probe).resolves.toMatchObject({ id: 'denver' });
+
+    expect(client.getCircuitState()).toBe('closed');
+    expect(events.map((event) => event.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('opens again when the probe fails', async () => {
+    const { client } = clientWithBreaker();
+    client.failNext('SERVICE_UNAVAILABLE', { times: 3 });
+    await client.getMarketById('denver').catch(() => undefined);
+    await client.getMarketById('denver').catch(() => undefined);
+
+    await sleep(60);
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  it('serves expired cache entries while open', async () => {
+    const { client } = clientWithBreaker({ cache: { ttl: { getMarketById: 1 } } });
+    const fresh = await client.getMarketById('denver');
+
+    await sleep(5);
+    client.failNext('SERVICE_UNAVAILABLE', { times: 2 });
+    await client.getMarkets().catch(() => undefined);
+    await client.getMarkets().catch(() => undefined);
+    expect(client.getCircuitState()).toBe('open');
+
+    await expect(client.getMarketById('denver')).resolves.toEqual(fresh);
+  });
+
+  it('is off unless configured', async () => {
+    const client = createTestClient({ seed: { markets: [{ id: 'denver' }] } });
+    client.failNext('SERVICE_UNAVAILABLE', { times: 10 });
+    for (let i = 0; i < 10; i++) {
+      await client.getMarketById('denver').catch(() => undefined);
+    }
+
+    expect(client.getCircuitState()).toBeNull();
+    expect(client.calls).toHaveLength(10);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceClientOptions } from '../src/types';
+
+function slowClient(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({
+    latencyMs: 20,
+    ...options,
+    seed: { markets: [{ id: 'denver', name: 'Denver Metro' }, { id: 'boulder', name: 'Boulder' }] },
+  });
+}
+
+describe('request coalescing', () => {
+  it('shares one call between identical concurrent reads', async () => {
+    const client = slowClient();
+
+    const [first, second] = await Promise.all([client.getMarketById('denver'), client.getMarketById('denver')]);
+
+    expect(client.calls).toHaveLength(1);
+    expect(second).toEqual(first);
+    // Each caller gets its own copy
+    expect(second).not.toBe(first);
+  });
+
+  it('does not merge requests that differ', async () => {
+    const client = slowClient();
+
+    await Promise.all([client.getMarketById('denver'), client.getMarketById('boulder')]);
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('never merges requests made for different users', async () => {
+    const client = slowClient({ jwtToken: 'alice' });
+
+    const alice = client.getMarketById('denver');
+    client.setJwtToken('bob');
+    const bob = client.getMarketById('denver');
+    await Promise.all([alice, bob]);
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('never merges writes', async () => {
+    const client = slowClient();
+    const market = { name: 'Aurora', market_type: 'metro' as const, brand_id: 1, client_id: 1 };
+
+    await Promise.all([client.createMarket(market), client.createMarket(market)]);
+
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('keeps the shared call running while any caller still wants it', async () => {
+    const client = slowClient();
+    const controller = new AbortController();
+
+    const abandoned = client.getMarketById('denver', { signal: controller.signal });
+    const kept = client.getMarketById('denver');
+    controller.abort();
+
+    await expect(abandoned).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(kept).resolves.toMatchObject({ id: 'denver' });
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('cancels the shared call once every caller has aborted, and starts afresh for the next caller', async () => {
+    const client = slowClient();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const calls = [
+      client.getMarketById('denver', { signal: first.signal }),
+      client.getMarketById('denver', { signal: second.signal }),
+    ];
+    // Let the shared call reach the service before everyone gives up on it
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(client.calls).toHaveLength(1);
+    first.abort();
+    second.abort();
+    const next = client.getMarketById('denver');
+
+    for (const call of calls) {
+      await expect(call).rejects.toMatchObject({ code: 'ABORTED' });
+    }
+    await expect(next).resolves.toMatchObject({ id: 'denver' });
+    expect(client.calls).toHaveLength(2);
+  });
+
+  it('can be turned off with dedupe: false', async () => {
+    const client = slowClient({ dedupe: false });
+
+    await Promise.all([client.getMarketById('denver'), client.getMarketById('denver')]);
+
+    expect(client.calls).toHaveLength(2);
+  });
+});
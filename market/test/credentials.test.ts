@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCacheStore } from '../src/cache';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceClientOptions } from '../src/types';
+
+function clientWithMarket(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({ ...options, seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] } });
+}
+
+/** JWT provider handing out `jwt-1`, `jwt-2`, ... and counting its calls */
+function tokenProvider() {
+  const provider = async () => `jwt-${++provider.calls}`;
+  provider.calls = 0;
+  return provider;
+}
+
+describe('credential providers', () => {
+  it('fetches the JWT from the provider before the first request', async () => {
+    const getJwtToken = tokenProvider();
+    const client = clientWithMarket({ getJwtToken });
+
+    await client.getMarketById('denver');
+    await client.getMarkets();
+
+    expect(getJwtToken.calls).toBe(1);
+    expect(client.calls.map((call) => call.headers['Authorization'])).toEqual(['Bearer jwt-1', 'Bearer jwt-1']);
+  });
+
+  it('refreshes an expired JWT and replays the request once', async () => {
+    const getJwtToken = tokenProvider();
+    const client = clientWithMarket({ getJwtToken });
+    client.failNext('EXPIRED_JWT');
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ id: 'denver' });
+    expect(client.calls.map((call) => call.headers['Authorization'])).toEqual(['Bearer jwt-1', 'Bearer jwt-2']);
+
+    client.failNext('EXPIRED_JWT', { times: 2 });
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'EXPIRED_JWT' });
+  });
+
+  it('shares one provider call between concurrent refreshes', async () => {
+    const getJwtToken = tokenProvider();
+    const client = clientWithMarket({ getJwtToken, jwtToken: 'stale', latencyMs: 5 });
+    client.failNext('EXPIRED_JWT', { times: 2 });
+
+    await Promise.all([client.getMarketById('denver'), client.getMarkets()]);
+
+    expect(getJwtToken.calls).toBe(1);
+  });
+
+  it('refreshes the API key from its provider', async () => {
+    const client = clientWithMarket({ getApiKey: () => 'mk_test_fresh' });
+    client.failNext('EXPIRED_API_KEY');
+
+    await client.getMarketById('denver');
+
+    expect(client.calls[1].headers['X-API-Key']).toBe('mk_test_fresh');
+  });
+
+  it('reports provider failures as CREDENTIAL_REFRESH_FAILED', async () => {
+    const client = clientWithMarket({
+      getJwtToken: () => {
+        throw new Error('SSO is down');
+      },
+    });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'CREDENTIAL_REFRESH_FAILED' });
+  });
+
+  it('keys cached responses on the provider JWT, not on the API key alone', async () => {
+    const store = new MemoryCacheStore();
+    const alice = clientWithMarket({ apiKey: 'mk_test_shared', getJwtToken: () => 'alice', cache: { store } });
+    const bob = clientWithMarket({ apiKey: 'mk_test_shared', getJwtToken: () => 'bob', cache: { store } });
+
+    await alice.getMarketById('denver');
+    await bob.getMarketById('denver');
+
+    expect(bob.calls).toHaveLength(1);
+    expect(bob.calls[0].headers['Authorization']).toBe('Bearer bob');
+    expect(store.keys()).toHaveLength(2);
+  });
+});
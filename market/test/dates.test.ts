@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { hydrateDates, serializeRequestDates, toISODate } from '../src/dates';
+import { createTestClient } from '../src/testing';
+
+describe('toISODate', () => {
+  it('passes YYYY-MM-DD strings through', () => {
+    expect(toISODate('2025-03-01')).toBe('2025-03-01');
+  });
+
+  it('formats UTC-midnight dates and timestamps as their calendar day', () => {
+    expect(toISODate(new Date(Date.UTC(2025, 2, 1)))).toBe('2025-03-01');
+    expect(toISODate('2025-03-01T00:00:00.000Z')).toBe('2025-03-01');
+  });
+
+  it('rejects instants that are not UTC midnight', () => {
+    expect(() => toISODate(new Date('2025-03-01T18:30:00Z'), 'effective_date')).toThrow(
+      expect.objectContaining({ code: 'INVALID_DATE', message: expect.stringContaining('effective_date') })
+    );
+  });
+
+  it('passes unparseable strings through for the service to reject', () => {
+    expect(toISODate('next tuesday')).toBe('next tuesday');
+  });
+});
+
+describe('hydrateDates', () => {
+  it('converts date fields at any depth without touching the input', () => {
+    const lookup = {
+      market: { id: 'denver', created_at: '2025-01-01T00:00:00.000Z' },
+      cost_adders: [{ id: 'permit', effective_date: '2025-03-01', name: '2025-03-01' }],
+    };
+
+    const hydrated = hydrateDates(lookup);
+
+    expect(hydrated.market.created_at).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+    expect(hydrated.cost_adders[0].effective_date).toEqual(new Date(Date.UTC(2025, 2, 1)));
+    expect(hydrated.cost_adders[0].name).toBe('2025-03-01');
+    expect(lookup.market.created_at).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('keeps strings that are not dates', () => {
+    expect(hydrateDates({ updated_at: 'unknown' })).toEqual({ updated_at: 'unknown' });
+  });
+});
+
+describe('serializeRequestDates', () => {
+  it('sends calendar-date fields as YYYY-MM-DD and leaves other fields alone', () => {
+    const createdAt = new Date('2025-01-01T12:00:00Z');
+
+    expect(
+      serializeRequestDates({
+        effective_date: new Date(Date.UTC(2025, 2, 1)),
+        expiration_date: '2025-12-31T00:00:00.000Z',
+        created_at: createdAt,
+      })
+    ).toEqual({ effective_date: '2025-03-01', expiration_date: '2025-12-31', created_at: createdAt });
+  });
+});
+
+describe('date handling in the client', () => {
+  const seed = {
+    markets: [{ id: 'denver', name: 'Denver Metro' }],
+    costAdders: [{ market_id: 'denver', adder_name: 'Permit', adder_type: 'fixed' as const, cost_value: 350 }],
+  };
+
+  it('hydrates responses when hydrateDates is set', async () => {
+    const client = createTestClient({ seed, hydrateDates: true });
+
+    const [adder] = await client.getCostAdders('denver');
+    const market = await client.getMarketById('denver');
+
+    expect(adder.created_at).toBeInstanceOf(Date);
+    expect(market.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('leaves responses as strings by default', async () => {
+    const client = createTestClient({ seed });
+
+    expect(typeof (await client.getMarketById('denver')).created_at).toBe('string');
+  });
+
+  it('sends Date request fields as calendar dates', async () => {
+    const client = createTestClient({ seed });
+
+    await client.createCostAdder('denver', {
+      adder_name: 'Seasonal',
+      adder_type: 'fixed',
+      cost_value: 100,
+      effective_date: new Date(Date.UTC(2025, 2, 1)),
+    });
+
+    expect(client.calls[0].body).toMatchObject({ effective_date: '2025-03-01' });
+  });
+
+  it('rejects a non-midnight Date before sending anything', async () => {
+    const client = createTestClient({ seed });
+
+    await expect(
+      client.createCostAdder('denver', {
+        adder_name: 'Seasonal',
+        adder_type: 'fixed',
+        cost_value: 100,
+        effective_date: new Date('2025-03-01T18:30:00Z'),
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_DATE' });
+    expect(client.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { createTestClient } from '../src/testing';
+import {
+  AuthError,
+  MarketServiceError,
+  NetworkError,
+  NotFoundError,
+  PremiumFeatureError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '../src/types';
+
+/** Client whose every request gets the given response */
+function clientReturning(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new MarketServiceClient({
+    baseURL: 'http://market-service.test',
+    apiKey: 'mk_test_key',
+    transport: async () => ({ status, headers, body }),
+  });
+}
+
+const failure = (status: number, body: object, headers?: Record<string, string>) =>
+  clientReturning(status, { status: 'error', ...body }, headers)
+    .getMarketById('denver')
+    .then(
+      () => {
+        throw new Error('Expected the request to fail');
+      },
+      (error: MarketServiceError) => error
+    );
+
+describe('error mapping', () => {
+  it("keeps the service's errorCode on auth errors", async () => {
+    const error = await failure(401, { error: 'JWT expired', errorCode: 'EXPIRED_JWT' });
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({ code: 'EXPIRED_JWT', statusCode: 401, message: 'JWT expired' });
+    expect(error.isAuthError()).toBe(true);
+  });
+
+  it('falls back to a code derived from the status', async () => {
+    expect(await failure(401, { error: 'Nope' })).toMatchObject({ code: 'INVALID_API_KEY' });
+    expect(await failure(403, { error: 'Nope' })).toMatchObject({ code: 'INSUFFICIENT_PERMISSIONS' });
+    expect(await failure(404, { error: 'Nope' })).toMatchObject({ code: 'NOT_FOUND' });
+    expect(await failure(400, { error: 'Nope' })).toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(await failure(500, { error: 'Nope' })).toMatchObject({ code: 'API_ERROR', statusCode: 500 });
+    expect(await failure(500, { error: 'Nope', errorCode: 'DATABASE_ERROR' })).toMatchObject({
+      code: 'DATABASE_ERROR',
+    });
+  });
+
+  it('maps statuses to error subclasses', async () => {
+    expect(await failure(404, { error: 'Market not found' })).toBeInstanceOf(NotFoundError);
+    expect(await failure(422, { error: 'Invalid' })).toBeInstanceOf(ValidationError);
+    expect(await failure(429, { error: 'Slow down' }, { 'retry-after': '2' })).toBeInstanceOf(RateLimitError);
+  });
+
+  it('lists field errors from either shape of validation details', async () => {
+    const fromObject = (await failure(400, { error: 'Invalid', details: { name: 'is required' } })) as ValidationError;
+    const fromArray = (await failure(400, {
+      error: 'Invalid',
+      details: [{ field: 'cost_value', message: 'must be positive', code: 'MIN' }, { message: 'no field' }],
+    })) as ValidationError;
+
+    expect(fromObject.fieldErrors).toEqual([{ field: 'name', message: 'is required' }]);
+    expect(fromArray.fieldErrors).toEqual([{ field: 'cost_value', message: 'must be positive', code: 'MIN' }]);
+  });
+
+  it('tells premium features apart from missing permissions', async () => {
+    const error = (await failure(403, {
+      error: 'Permit history is a premium feature',
+      upgrade_message: 'Upgrade to Pro',
+    })) as PremiumFeatureError;
+
+    expect(error).toBeInstanceOf(PremiumFeatureError);
+    expect(error).toMatchObject({ code: 'FEATURE_NOT_AVAILABLE', upgradeMessage: 'Upgrade to Pro' });
+    expect(await failure(403, { error: 'Upgrade', errorCode: 'PREMIUM_REQUIRED' })).toBeInstanceOf(
+      PremiumFeatureError
+    );
+  });
+
+  it('reads Retry-After into retryAfter seconds', async () => {
+    const error = await failure(429, { error: 'Slow down' }, { 'retry-after': '7' });
+
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 7 });
+    expect(error.isRetryable()).toBe(true);
+  });
+
+  it('carries request context for logging', async () => {
+    const body = { status: 'error', error: 'Market not found', errorCode: 'MARKET_NOT_FOUND' };
+    const error = await failure(404, body, { 'x-request-id': 'req-42' });
+
+    expect(error).toMatchObject({ method: 'GET', path: '/api/markets/denver', requestId: 'req-42', responseBody: body });
+    expect(error.toJSON()).toMatchObject({
+      name: 'NotFoundError',
+      code: 'MARKET_NOT_FOUND',
+      statusCode: 404,
+      requestId: 'req-42',
+    });
+  });
+
+  it('reports missing responses as NetworkError and timeouts as TimeoutError', async () => {
+    const client = createTestClient();
+    client.failNext('NETWORK_ERROR').failNext('TIMEOUT');
+
+    const network = await client.getMarkets().catch((error) => error);
+    const timeout = await client.getMarkets().catch((error) => error);
+
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network.code).toBe('NETWORK_ERROR');
+    expect(timeout).toBeInstanceOf(TimeoutError);
+    expect(timeout.code).toBe('TIMEOUT');
+  });
+});
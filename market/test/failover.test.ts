@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { registerEnvironment, resolveEndpoints } from '../src/endpoints';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { InMemoryMarketService } from '../src/testing';
+import { EndpointChangeEvent, MarketServiceConfig, NetworkError, TransportRequest } from '../src/types';
+
+const PRIMARY = 'http://primary.test';
+const SECONDARY = 'http://secondary.test';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Client over two endpoints backed by one fake service; endpoints in `down` refuse connections */
+function failoverClient(config: Partial<MarketServiceConfig> = {}) {
+  const service = new InMemoryMarketService({ markets: [{ id: 'denver', name: 'Denver Metro' }] });
+  const down = new Set<string>();
+  const unavailable = new Set<string>();
+  const sentTo: string[] = [];
+  const events: EndpointChangeEvent[] = [];
+
+  const client = new MarketServiceClient({
+    baseURL: [PRIMARY, SECONDARY],
+    apiKey: 'mk_test_key',
+    failover: { onEndpointChange: (event) => events.push(event) },
+    ...config,
+    transport: async (request: TransportRequest) => {
+      sentTo.push(`${request.operation} ${request.baseURL}`);
+      if (down.has(request.baseURL)) throw new NetworkError(`Cannot reach ${request.baseURL}`);
+      if (unavailable.has(request.baseURL)) {
+        return { status: 503, headers: {}, body: { status: 'error', error: 'Unavailable' } };
+      }
+      return service.handle(request);
+    },
+  });
+  return { client, down, unavailable, sentTo, events };
+}
+
+describe('endpoint failover', () => {
+  it('fails over to the next endpoint when the primary cannot be reached', async () => {
+    const { client, down, sentTo, events } = failoverClient();
+    down.add(PRIMARY);
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ id: 'denver' });
+    await client.getMarkets();
+
+    expect(client.baseURL).toBe(SECONDARY);
+    expect(sentTo).toEqual([`getMarketById ${PRIMARY}`, `getMarketById ${SECONDARY}`, `getMarkets ${SECONDARY}`]);
+    expect(events).toEqual([{ from: PRIMARY, to: SECONDARY, reason: 'failover', error: expect.any(NetworkError) }]);
+  });
+
+  it('fails over reads on 5xx but not writes that may have been applied', async () => {
+    const { client, unavailable, sentTo } = failoverClient();
+    unavailable.add(PRIMARY);
+
+    await expect(client.deleteMarket('denver')).rejects.toMatchObject({ statusCode: 503 });
+    expect(sentTo).toEqual([`deleteMarket ${PRIMARY}`]);
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ id: 'denver' });
+    expect(client.baseURL).toBe(SECONDARY);
+  });
+
+  it('fails over writes that never reached the service', async () => {
+    const { client, down } = failoverClient();
+    down.add(PRIMARY);
+
+    await expect(client.deleteMarket('denver')).resolves.toBeUndefined();
+    expect(client.baseURL).toBe(SECONDARY);
+  });
+
+  it('tries each endpoint once and then gives up', async () => {
+    const { client, down, sentTo } = failoverClient();
+    down.add(PRIMARY);
+    down.add(SECONDARY);
+
+    await expect(client.getMarketById('denver')).rejects.toBeInstanceOf(NetworkError);
+    expect(sentTo).toHaveLength(2);
+  });
+
+  it('returns to the primary once it answers a health check again', async () => {
+    const { client, down, sentTo, events } = failoverClient({
+      failover: { recoveryIntervalMs: 10, onEndpointChange: (event) => events.push(event) },
+    });
+    down.add(PRIMARY);
+    await client.getMarketById('denver');
+
+    // Not due yet
+    await client.getMarketById('denver');
+    expect(sentTo.filter((entry) => entry.startsWith('healthCheck'))).toHaveLength(0);
+
+    down.delete(PRIMARY);
+    await wait(20);
+    await client.getMarketById('denver');
+    await wait(0);
+
+    expect(sentTo).toContain(`healthCheck ${PRIMARY}`);
+    expect(client.baseURL).toBe(PRIMARY);
+    expect(events.map((event) => event.reason)).toEqual(['failover', 'recovered']);
+  });
+});
+
+describe('environment registry', () => {
+  it('resolves registered environments, primary first', () => {
+    registerEnvironment('test-dr', ['http://a.test', 'http://b.test']);
+
+    expect(resolveEndpoints({ apiKey: 'mk_test_key', environment: 'test-dr' })).toEqual([
+      'http://a.test',
+      'http://b.test',
+    ]);
+    expect(new MarketServiceClient({ apiKey: 'mk_test_key', environment: 'test-dr' }).baseURL).toBe('http://a.test');
+  });
+
+  it('lets baseURL override the environment', () => {
+    expect(resolveEndpoints({ apiKey: 'mk_test_key', environment: 'staging', baseURL: 'http://local.test' })).toEqual([
+      'http://local.test',
+    ]);
+  });
+
+  it('rejects unknown and empty environments', () => {
+    expect(() => resolveEndpoints({ apiKey: 'mk_test_key', environment: 'nowhere' })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_ENVIRONMENT' })
+    );
+    expect(() => registerEnvironment('empty', [])).toThrow(expect.objectContaining({ code: 'INVALID_ENVIRONMENT' }));
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { NetworkError, TimeoutError, ValidationError } from '../src/types';
+
+const colorado = [
+  { county_fips: '08031', county_name: 'Denver', state_code: 'CO' },
+  { county_fips: '08013', county_name: 'Boulder', state_code: 'CO' },
+];
+
+function coloradoClient() {
+  return createTestClient({
+    seed: {
+      markets: [
+        { id: 'co', name: 'Colorado', market_type: 'state', state_code: 'CO', serviceable_counties: colorado },
+        { id: 'denver', name: 'Denver Metro', market_type: 'metro', serviceable_counties: [colorado[0]] },
+        { id: 'other-brand', brand_id: 2, market_type: 'metro', serviceable_counties: [colorado[0]] },
+      ],
+      costAdders: [
+        { id: 'permit', market_id: 'denver', adder_name: 'Permit', cost_value: 350 },
+        { id: 'boulder-only', market_id: 'denver', adder_name: 'Boulder fee', county_fips: '08013' },
+      ],
+      zipCodes: { '80202': '08031', '80301': '08013' },
+    },
+  });
+}
+
+describe('InMemoryMarketService', () => {
+  it('fills in defaults for seeded records', async () => {
+    const client = createTestClient({ seed: { markets: [{ name: 'Denver Metro' }] } });
+
+    const [market] = await client.getMarkets();
+
+    expect(market).toMatchObject({ name: 'Denver Metro', active: true, brand_id: 1, legacy_id: 1 });
+    expect(market.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(typeof market.created_at).toBe('string');
+  });
+
+  describe('lookupMarket', () => {
+    it('prefers a metro market over the state-wide one for a county', async () => {
+      const result = await coloradoClient().lookupMarket({ brand_id: 1, county_fips: '08031' });
+
+      expect(result.matched_by).toBe('county');
+      expect(result.market?.id).toBe('denver');
+      expect(result.cost_adders.map((adder) => adder.id)).toEqual(['permit']);
+    });
+
+    it('matches a ZIP through its county', async () => {
+      const result = await coloradoClient().lookupMarket({ brand_id: 1, zip: '80301' });
+
+      expect(result.matched_by).toBe('zip');
+      expect(result.market?.id).toBe('co');
+    });
+
+    it('falls back to the state-wide market', async () => {
+      const result = await coloradoClient().lookupMarket({ brand_id: 1, state_code: 'co' });
+
+      expect(result.matched_by).toBe('state');
+      expect(result.market?.id).toBe('co');
+    });
+
+    it('only matches markets of the requested brand', async () => {
+      const result = await coloradoClient().lookupMarket({ brand_id: 2, county_fips: '08031' });
+
+      expect(result.market?.id).toBe('other-brand');
+    });
+
+    it('reports no match', async () => {
+      const result = await coloradoClient().lookupMarket({ brand_id: 1, zip: '10001' });
+
+      expect(result).toEqual({ market: null, cost_adders: [], matched_by: 'none' });
+    });
+  });
+
+  it('soft-deletes markets and cost adders', async () => {
+    const client = coloradoClient();
+
+    await client.deleteMarket('denver');
+    await client.deleteCostAdder('permit');
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ active: false });
+    const adders = await client.getCostAdders('denver');
+    expect(adders.find((adder) => adder.id === 'permit')).toMatchObject({ active: false });
+    const lookup = await client.lookupMarket({ brand_id: 1, county_fips: '08031' });
+    expect(lookup.market?.id).toBe('co');
+    expect(lookup.cost_adders).toEqual([]);
+  });
+
+  it('validates creates like the service', async () => {
+    const client = coloradoClient();
+
+    const error = await client
+      .createCostAdder('denver', { adder_name: '', adder_type: 'flat' as never, cost_value: NaN })
+      .catch((caught) => caught);
+
+    expect(error).toMatchObject({ code: 'VALIDATION_ERROR', statusCode: 400 });
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors.map((detail: { field: string }) => detail.field)).toEqual([
+      'adder_name',
+      'adder_type',
+      'cost_value',
+    ]);
+  });
+
+  describe('failNext', () => {
+    it('fails the next call with the status for the code, then recovers', async () => {
+      const client = coloradoClient();
+      client.failNext('RATE_LIMITED', { retryAfter: 3 });
+
+      await expect(client.getMarkets()).rejects.toMatchObject({
+        code: 'RATE_LIMITED',
+        statusCode: 429,
+        retryAfter: 3,
+      });
+      await expect(client.getMarkets()).resolves.toHaveLength(3);
+    });
+
+    it('only fails the named operation, as many times as asked', async () => {
+      const client = coloradoClient();
+      client.failNext('SERVICE_UNAVAILABLE', { operation: 'getMarketById', times: 2 });
+
+      await expect(client.getMarkets()).resolves.toHaveLength(3);
+      await expect(client.getMarketById('co')).rejects.toMatchObject({ statusCode: 503 });
+      await expect(client.getMarketById('co')).rejects.toMatchObject({ statusCode: 503 });
+      await expect(client.getMarketById('co')).resolves.toMatchObject({ id: 'co' });
+    });
+
+    it('simulates network failures without a response', async () => {
+      const client = coloradoClient();
+      client.failNext('NETWORK_ERROR').failNext('TIMEOUT');
+
+      await expect(client.getMarkets()).rejects.toBeInstanceOf(NetworkError);
+      await expect(client.getMarkets()).rejects.toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  it('records calls and resets', async () => {
+    const client = coloradoClient();
+    await client.getMarketById('co');
+
+    expect(client.calls).toEqual([
+      expect.objectContaining({ operation: 'getMarketById', method: 'GET', path: '/api/markets/co' }),
+    ]);
+
+    client.reset();
+    expect(client.calls).toEqual([]);
+    await expect(client.getMarkets()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,18 @@
+import { CostAdder } from '../src/types';
+
+/** Cost adder with every required field filled in */
+export function costAdder(overrides: Partial<CostAdder<string>> & { id: string }): CostAdder<string> {
+  return {
+    market_id: 'denver',
+    adder_name: overrides.id,
+    adder_type: 'fixed',
+    cost_value: 0,
+    applies_to_retail: true,
+    applies_to_lom: true,
+    display_on_proposal: true,
+    active: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceClientOptions, IdempotentReplayEvent } from '../src/types';
+
+const boulder = { name: 'Boulder', market_type: 'metro' as const, brand_id: 1, client_id: 1 };
+
+function clientWithMarket(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({ ...options, seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] } });
+}
+
+const boulders = async (client: ReturnType<typeof clientWithMarket>) =>
+  (await client.getMarkets()).filter((market) => market.name === 'Boulder');
+
+describe('idempotent creates', () => {
+  it('sends a fresh Idempotency-Key with every create', async () => {
+    const client = clientWithMarket();
+
+    await client.createMarket(boulder);
+    await client.createCostAdder('denver', { adder_name: 'Permit', adder_type: 'fixed', cost_value: 350 });
+    await client.createMarket(boulder);
+
+    const keys = client.calls.map((call) => call.headers['Idempotency-Key']);
+    expect(keys.every((key) => /^[0-9a-f-]{36}$/.test(key))).toBe(true);
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  it('uses the caller-supplied key', async () => {
+    const client = clientWithMarket();
+
+    await client.createMarket(boulder, { idempotencyKey: 'order-1234' });
+
+    expect(client.calls[0].headers['Idempotency-Key']).toBe('order-1234');
+  });
+
+  it('retries creates under the Idempotency-Key of the first attempt', async () => {
+    const client = clientWithMarket({ retry: { baseDelayMs: 1, jitter: 'none' } });
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await client.createMarket(boulder);
+
+    const keys = client.calls.map((call) => call.headers['Idempotency-Key']);
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toBeTruthy();
+    expect(keys[1]).toBe(keys[0]);
+    expect(await boulders(client)).toHaveLength(1);
+  });
+
+  it('does not retry creates unless retry is enabled', async () => {
+    const client = clientWithMarket();
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.createMarket(boulder)).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('reports responses the service replayed for a repeated key', async () => {
+    const replays: IdempotentReplayEvent[] = [];
+    const client = clientWithMarket({ onIdempotentReplay: (event) => replays.push(event) });
+
+    const first = await client.createMarket(boulder, { idempotencyKey: 'order-1234' });
+    const second = await client.createMarket(boulder, { idempotencyKey: 'order-1234' });
+
+    expect(second.id).toBe(first.id);
+    expect(await boulders(client)).toHaveLength(1);
+    expect(replays).toEqual([
+      {
+        operation: 'createMarket',
+        method: 'POST',
+        path: '/api/markets',
+        idempotencyKey: 'order-1234',
+        status: 201,
+      },
+    ]);
+  });
+
+  it('never shares or caches creates', async () => {
+    const client = clientWithMarket({ cache: true, latencyMs: 5 });
+
+    await Promise.all([client.createMarket(boulder), client.createMarket(boulder)]);
+
+    expect(client.calls).toHaveLength(2);
+    expect(await boulders(client)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { InMemoryMarketService } from '../src/testing';
+import { KeyRotatedEvent, MarketServiceConfig, Transport } from '../src/types';
+
+const OLD_KEY = 'mk_test_old';
+const NEW_KEY = 'mk_test_new';
+
+/** A service that only accepts the keys in `accepted` */
+function setup(config: Partial<MarketServiceConfig> = {}) {
+  const service = new InMemoryMarketService({ markets: [{ id: 'denver', name: 'Denver Metro' }] }, 5);
+  const accepted = new Set([OLD_KEY, NEW_KEY]);
+  const keysSent: string[] = [];
+  const events: KeyRotatedEvent[] = [];
+
+  const transport: Transport = async (request) => {
+    keysSent.push(request.headers['X-API-Key']);
+    if (!accepted.has(request.headers['X-API-Key'])) {
+      return {
+        status: 401,
+        headers: {},
+        body: { status: 'error', error: 'API key has expired', errorCode: 'EXPIRED_API_KEY' },
+      };
+    }
+    return service.handle(request);
+  };
+
+  const client = new MarketServiceClient({
+    baseURL: 'http://market-service.test',
+    apiKey: OLD_KEY,
+    transport,
+    onKeyRotated: (event) => events.push(event),
+    ...config,
+  });
+  return { client, accepted, keysSent, events };
+}
+
+describe('API key rotation', () => {
+  it('keeps using the current key while the service accepts it', async () => {
+    const { client, keysSent, events } = setup({ nextApiKey: NEW_KEY });
+
+    await client.getMarketById('denver');
+
+    expect(keysSent).toEqual([OLD_KEY]);
+    expect(events).toEqual([]);
+  });
+
+  it('replays a rejected request with the next key and promotes it', async () => {
+    const { client, accepted, keysSent, events } = setup({ nextApiKey: NEW_KEY });
+    accepted.delete(OLD_KEY);
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ id: 'denver' });
+    await client.getMarkets();
+
+    expect(keysSent).toEqual([OLD_KEY, NEW_KEY, NEW_KEY]);
+    expect(events).toEqual([
+      {
+        previousKey: expect.stringMatching(/^[0-9a-f]{8}$/),
+        currentKey: expect.stringMatching(/^[0-9a-f]{8}$/),
+        reason: 'EXPIRED_API_KEY',
+        operation: 'getMarketById',
+      },
+    ]);
+    expect(events[0].previousKey).not.toBe(events[0].currentKey);
+  });
+
+  it('uses a key staged later with rotateApiKey', async () => {
+    const { client, accepted, keysSent, events } = setup();
+    client.rotateApiKey(NEW_KEY);
+    accepted.delete(OLD_KEY);
+
+    await client.getMarketById('denver');
+
+    expect(keysSent).toEqual([OLD_KEY, NEW_KEY]);
+    expect(events).toHaveLength(1);
+  });
+
+  it('switches once when concurrent requests are rejected', async () => {
+    const { client, accepted, keysSent, events } = setup({ nextApiKey: NEW_KEY });
+    accepted.delete(OLD_KEY);
+
+    await Promise.all([client.getMarketById('denver'), client.getMarkets()]);
+
+    expect(keysSent.filter((key) => key === OLD_KEY)).toHaveLength(2);
+    expect(keysSent.filter((key) => key === NEW_KEY)).toHaveLength(2);
+    expect(events).toHaveLength(1);
+  });
+
+  it('replays only once and reports no rotation when the next key is rejected too', async () => {
+    const { client, accepted, keysSent, events } = setup({ nextApiKey: NEW_KEY });
+    accepted.clear();
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'EXPIRED_API_KEY' });
+
+    expect(keysSent).toEqual([OLD_KEY, NEW_KEY]);
+    expect(events).toEqual([]);
+  });
+
+  it('fails as before without a next key', async () => {
+    const { client, accepted, keysSent } = setup();
+    accepted.delete(OLD_KEY);
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'EXPIRED_API_KEY' });
+    expect(keysSent).toEqual([OLD_KEY]);
+  });
+});
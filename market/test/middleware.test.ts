@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { createTestClient, InMemoryMarketService } from '../src/testing';
+import { FakeMarketServiceClientOptions, MarketServiceConfig, MarketServiceError, Middleware } from '../src/types';
+
+const seed = { markets: [{ id: 'denver', name: 'Denver Metro' }] };
+
+function clientWithMarket(options: FakeMarketServiceClientOptions = {}) {
+  return createTestClient({ ...options, seed });
+}
+
+describe('middleware', () => {
+  it('runs onRequest in registration order and onResponse in reverse', async () => {
+    const order: string[] = [];
+    const tracer = (name: string): Middleware => ({
+      name,
+      onRequest: () => void order.push(`${name}:request`),
+      onResponse: () => void order.push(`${name}:response`),
+    });
+    const client = clientWithMarket({ middleware: [tracer('outer')] });
+    client.use(tracer('inner'));
+
+    await client.getMarketById('denver');
+
+    expect(order).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+  });
+
+  it('lets onRequest rewrite headers and params', async () => {
+    const client = clientWithMarket({
+      middleware: [
+        {
+          onRequest: (request) => ({
+            ...request,
+            headers: { ...request.headers, 'X-Request-Id': 'req-1' },
+            params: { ...request.params, state_code: 'CO' },
+          }),
+        },
+      ],
+    });
+
+    await client.getMarkets();
+
+    expect(client.calls[0].headers['X-Request-Id']).toBe('req-1');
+    expect(client.calls[0].params).toMatchObject({ state_code: 'CO' });
+  });
+
+  it('lets onResponse rewrite the body', async () => {
+    const client = clientWithMarket();
+    client.use({
+      onResponse: (response) => ({
+        ...response,
+        body: { ...(response.body as object), data: { ...seed.markets[0], name: 'Rewritten' } },
+      }),
+    });
+
+    expect((await client.getMarketById('denver')).name).toBe('Rewritten');
+  });
+
+  it('recovers from an error when onError returns a response', async () => {
+    const client = clientWithMarket();
+    client.failNext('SERVICE_UNAVAILABLE');
+    client.use({
+      onError: (error, request) =>
+        error.statusCode === 503
+          ? { status: 200, headers: {}, body: { status: 'success', data: { id: 'denver', name: 'Fallback' } }, request }
+          : undefined,
+    });
+
+    expect((await client.getMarketById('denver')).name).toBe('Fallback');
+  });
+
+  it('passes the error on when onError returns nothing, and lets an outer hook replace it', async () => {
+    const seen: string[] = [];
+    const client = clientWithMarket({
+      middleware: [
+        {
+          onError: (error) => {
+            seen.push(`outer:${error.code}`);
+            throw new MarketServiceError('Replaced', 'REPLACED');
+          },
+        },
+        { onError: (error) => void seen.push(`inner:${error.code}`) },
+      ],
+    });
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'REPLACED' });
+    expect(seen).toEqual(['inner:SERVICE_UNAVAILABLE', 'outer:SERVICE_UNAVAILABLE']);
+  });
+
+  it('stops running a middleware once it is removed', async () => {
+    const client = clientWithMarket();
+    let requests = 0;
+    const remove = client.use({ onRequest: () => void requests++ });
+
+    await client.getMarketById('denver');
+    remove();
+    await client.getMarkets();
+
+    expect(requests).toBe(1);
+  });
+});
+
+describe('client config', () => {
+  it('does not share credentials between clients built from the same config object', async () => {
+    const service = new InMemoryMarketService(seed);
+    const config: MarketServiceConfig = {
+      baseURL: 'http://market-service.test',
+      apiKey: 'mk_test_key',
+      transport: service.handle,
+    };
+    const a = new MarketServiceClient(config);
+    const b = new MarketServiceClient(config);
+
+    a.setJwtToken('user-a');
+    a.setApiKey('mk_test_other');
+    await b.getMarketById('denver');
+
+    expect(service.calls[0].headers['Authorization']).toBeUndefined();
+    expect(service.calls[0].headers['X-API-Key']).toBe('mk_test_key');
+    expect(config.jwtToken).toBeUndefined();
+  });
+});
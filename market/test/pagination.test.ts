@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { paginate, toPage } from '../src/pagination';
+import { createTestClient } from '../src/testing';
+import { Page } from '../src/types';
+
+const counties = Array.from({ length: 5 }, (_, i) => ({
+  county_fips: `0800${i + 1}`,
+  county_name: `County ${i + 1}`,
+  state_code: 'CO',
+}));
+
+describe('toPage', () => {
+  it("uses the service's count to find the last page", () => {
+    expect(toPage({ status: 'success', data: [1, 2], count: 5 }, 2, 2)).toEqual({
+      items: [1, 2],
+      total: 5,
+      offset: 2,
+      nextOffset: 4,
+    });
+    expect(toPage({ status: 'success', data: [5], count: 5 }, 4, 2).nextOffset).toBeNull();
+  });
+
+  it('treats a short page as the last one when there is no count', () => {
+    expect(toPage({ status: 'success', data: [1, 2] }, 0, 2).nextOffset).toBe(2);
+    expect(toPage({ status: 'success', data: [3] }, 2, 2).nextOffset).toBeNull();
+    expect(toPage({ status: 'success', data: [1, 2] }, 0).nextOffset).toBeNull();
+  });
+
+  it('stops on an empty page', () => {
+    expect(toPage({ status: 'success', data: [], count: 10 }, 4, 2).nextOffset).toBeNull();
+  });
+});
+
+describe('paginate', () => {
+  it('yields the items of every page in order', async () => {
+    const pages: Record<number, Page<number>> = {
+      0: { items: [1, 2], offset: 0, nextOffset: 2 },
+      2: { items: [3], offset: 2, nextOffset: null },
+    };
+    const items: number[] = [];
+
+    for await (const item of paginate(async (offset) => pages[offset])) items.push(item);
+
+    expect(items).toEqual([1, 2, 3]);
+  });
+});
+
+describe('county pagination', () => {
+  it('reports totals and the next offset', async () => {
+    const client = createTestClient({ seed: { counties } });
+
+    const first = await client.getCountiesPage({ limit: 2 });
+    const last = await client.getCountiesPage({ limit: 2, offset: 4 });
+
+    expect(first).toMatchObject({ total: 5, offset: 0, nextOffset: 2 });
+    expect(first.items.map((county) => county.county_fips)).toEqual(['08001', '08002']);
+    expect(last).toMatchObject({ offset: 4, nextOffset: null });
+  });
+
+  it('iterates every county, fetching pages as it goes', async () => {
+    const client = createTestClient({ seed: { counties } });
+    const names: string[] = [];
+
+    for await (const county of client.iterateCounties({ state_code: 'CO', limit: 2 })) {
+      names.push(county.county_name);
+    }
+
+    expect(names).toEqual(counties.map((county) => county.county_name));
+    expect(client.calls.map((call) => call.params)).toEqual([
+      { state_code: 'CO', limit: 2, offset: 0 },
+      { state_code: 'CO', limit: 2, offset: 2 },
+      { state_code: 'CO', limit: 2, offset: 4 },
+    ]);
+  });
+
+  it('stops fetching when the loop breaks early', async () => {
+    const client = createTestClient({ seed: { counties } });
+
+    for await (const county of client.iterateCounties({ limit: 2 })) {
+      if (county.county_fips === '08001') break;
+    }
+
+    expect(client.calls).toHaveLength(1);
+  });
+});
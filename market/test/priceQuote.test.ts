@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { FakeMarketServiceSeed } from '../src/types';
+
+const adders: FakeMarketServiceSeed['costAdders'] = [
+  {
+    id: 'permit',
+    market_id: 'denver',
+    adder_name: 'Permit',
+    adder_type: 'fixed',
+    cost_value: 350,
+    display_on_proposal: true,
+  },
+  {
+    id: 'steep',
+    market_id: 'denver',
+    adder_name: 'Steep roof',
+    adder_type: 'per_square',
+    cost_value: 12.35,
+    display_on_proposal: true,
+  },
+  {
+    id: 'lom-fee',
+    market_id: 'denver',
+    adder_name: 'LOM fee',
+    adder_type: 'fixed',
+    cost_value: 99,
+    applies_to_retail: false,
+  },
+  {
+    id: 'overhead',
+    market_id: 'denver',
+    adder_name: 'Overhead',
+    adder_type: 'percentage',
+    cost_value: 5,
+    display_on_proposal: false,
+  },
+  {
+    id: 'winter',
+    market_id: 'denver',
+    adder_name: 'Winter surcharge',
+    adder_type: 'fixed',
+    cost_value: 200,
+    effective_date: '2025-01-01',
+    expiration_date: '2025-02-28',
+  },
+];
+
+function pricingClient() {
+  return createTestClient({
+    seed: {
+      markets: [
+        {
+          id: 'denver',
+          name: 'Denver Metro',
+          brand_id: 1,
+          market_type: 'metro',
+          serviceable_counties: [{ county_fips: '08031', county_name: 'Denver', state_code: 'CO' }],
+        },
+      ],
+      costAdders: adders,
+      zipCodes: { '80202': '08031' },
+    },
+  });
+}
+
+const quote = { brandId: 1, basePrice: 15000, roofSquares: 35.5, quoteType: 'retail' as const };
+
+describe('priceQuote', () => {
+  it('looks up the market for a ZIP and prices the adders that apply', async () => {
+    const client = pricingClient();
+
+    const price = await client.priceQuote({ ...quote, zip: '80202', asOf: '2025-06-01' });
+
+    expect(price.market?.id).toBe('denver');
+    expect(price.matchedBy).toBe('zip');
+    expect(price.costAdders.map((adder) => adder.id).sort()).toEqual(['overhead', 'permit', 'steep']);
+    expect(price.lines.map((line) => [line.adderId, line.amountCents])).toEqual([
+      ['permit', 35000],
+      ['steep', 43843],
+      ['overhead', 75000],
+    ]);
+    expect(price.totalCents).toBe(1500000 + 35000 + 43843 + 75000);
+    expect(price.asOf).toEqual(new Date('2025-06-01'));
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('keeps hidden adders out of the proposal lines but in the total', async () => {
+    const price = await pricingClient().priceQuote({ ...quote, countyFips: '08031', asOf: '2025-06-01' });
+
+    expect(price.proposalLines.map((line) => line.adderId)).toEqual(['permit', 'steep']);
+    expect(price.totalAdderCents).toBe(35000 + 43843 + 75000);
+  });
+
+  it('selects adders by quote type and date', async () => {
+    const client = pricingClient();
+
+    const lom = await client.priceQuote({ ...quote, quoteType: 'lom', countyFips: '08031', asOf: '2025-06-01' });
+    const winter = await client.priceQuote({ ...quote, countyFips: '08031', asOf: '2025-02-28T23:00:00Z' });
+
+    expect(lom.costAdders.map((adder) => adder.id)).toContain('lom-fee');
+    expect(winter.costAdders.map((adder) => adder.id)).toContain('winter');
+  });
+
+  it('passes pricing options through', async () => {
+    const price = await pricingClient().priceQuote({
+      ...quote,
+      countyFips: '08031',
+      asOf: '2025-06-01',
+      pricing: { rules: { steep: { rounding: { mode: 'ceil', incrementCents: 100 } } } },
+    });
+
+    expect(price.lines.find((line) => line.adderId === 'steep')?.amountCents).toBe(43900);
+  });
+
+  it('returns an unpriced quote when no market matches', async () => {
+    const price = await pricingClient().priceQuote({ ...quote, stateCode: 'TX' });
+
+    expect(price).toMatchObject({ market: null, matchedBy: 'none', lines: [], totalCents: 1500000 });
+  });
+
+  it('needs a location and a valid asOf before calling the service', async () => {
+    const client = pricingClient();
+
+    await expect(client.priceQuote(quote)).rejects.toMatchObject({ code: 'INVALID_PRICING_INPUT' });
+    await expect(client.priceQuote({ ...quote, zip: '80202', asOf: 'someday' })).rejects.toMatchObject({
+      code: 'INVALID_PRICING_INPUT',
+    });
+    expect(client.calls).toHaveLength(0);
+  });
+});
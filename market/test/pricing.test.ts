@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { fromCents, priceCostAdders, toCents } from '../src/pricing';
+import { costAdder } from './fixtures';
+
+const quote = { basePrice: 15000, roofSquares: 35.5 };
+
+describe('toCents', () => {
+  it('converts the decimal as written, not its binary approximation', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(16087.5)).toBe(1608750);
+    expect(fromCents(1608750)).toBe(16087.5);
+  });
+});
+
+describe('priceCostAdders', () => {
+  it('evaluates fixed, per-square, percentage of base, then percentage of subtotal', () => {
+    const pricing = priceCostAdders(
+      [
+        costAdder({ id: 'subtotal-pct', adder_type: 'percentage', cost_value: 1 }),
+        costAdder({ id: 'base-pct', adder_type: 'percentage', cost_value: 10 }),
+        costAdder({ id: 'steep', adder_type: 'per_square', cost_value: 12.35 }),
+        costAdder({ id: 'permit', adder_type: 'fixed', cost_value: 350 }),
+      ],
+      quote,
+      { rules: { 'subtotal-pct': { basis: 'subtotal' } } }
+    );
+
+    expect(pricing.lines.map((line) => [line.adderId, line.step, line.amountCents])).toEqual([
+      ['permit', 1, 35000],
+      ['steep', 2, 43843], // 438.425 rounded half-up
+      ['base-pct', 3, 150000],
+      // 1% of 15000 + 350 + 438.43 + 1500
+      ['subtotal-pct', 4, 17288],
+    ]);
+    expect(pricing.lines[3].inputs).toEqual({ costValue: 1, basis: 'subtotal', basisCents: 1728843 });
+    expect(pricing.basePriceCents).toBe(1500000);
+    expect(pricing.totalAdderCents).toBe(35000 + 43843 + 150000 + 17288);
+    expect(pricing.totalCents).toBe(pricing.basePriceCents + pricing.totalAdderCents);
+  });
+
+  it('keeps the exact amount next to the rounded one', () => {
+    const steep = costAdder({ id: 'steep', adder_type: 'per_square', cost_value: 12.35 });
+    const [line] = priceCostAdders([steep], quote).lines;
+    expect(line.exactCents).toBe('43842.5');
+    expect(line.roundedCents).toBe(43843);
+  });
+
+  it.each([
+    ['half-up', 43843],
+    ['half-even', 43842],
+    ['ceil', 43843],
+    ['floor', 43842],
+  ] as const)('rounds %s', (mode, expected) => {
+    const pricing = priceCostAdders(
+      [costAdder({ id: 'steep', adder_type: 'per_square', cost_value: 12.35 })],
+      quote,
+      { rounding: { mode } }
+    );
+    expect(pricing.lines[0].amountCents).toBe(expected);
+  });
+
+  it('rounds to an increment and lets a per-adder rule override the default mode', () => {
+    const pricing = priceCostAdders(
+      [
+        costAdder({ id: 'steep', adder_type: 'per_square', cost_value: 12.35 }),
+        costAdder({ id: 'waste', adder_type: 'per_square', cost_value: 12.35 }),
+      ],
+      quote,
+      { rounding: { mode: 'half-up', incrementCents: 100 }, rules: { waste: { rounding: { mode: 'ceil' } } } }
+    );
+    expect(pricing.lines.map((line) => line.amountCents)).toEqual([43800, 43900]);
+  });
+
+  it('clamps to minCents and maxCents after rounding', () => {
+    const pricing = priceCostAdders(
+      [
+        costAdder({ id: 'small', adder_type: 'percentage', cost_value: 0.1 }),
+        costAdder({ id: 'large', adder_type: 'percentage', cost_value: 50 }),
+      ],
+      quote,
+      { rules: { small: { minCents: 5000 }, large: { maxCents: 250000 } } }
+    );
+    expect(pricing.lines).toMatchObject([
+      { adderId: 'small', roundedCents: 1500, amountCents: 5000, clamped: 'min' },
+      { adderId: 'large', roundedCents: 750000, amountCents: 250000, clamped: 'max' },
+    ]);
+  });
+
+  it('leaves out adders not in effect on asOf', () => {
+    const pricing = priceCostAdders(
+      [
+        costAdder({ id: 'old', cost_value: 100, expiration_date: '2025-02-28' }),
+        costAdder({ id: 'current', cost_value: 200, effective_date: '2025-03-01' }),
+      ],
+      quote,
+      { asOf: '2025-03-15' }
+    );
+    expect(pricing.lines.map((line) => line.adderId)).toEqual(['current']);
+  });
+
+  it('rejects amounts that are not finite numbers', () => {
+    expect(() => priceCostAdders([], { basePrice: NaN, roofSquares: 10 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_PRICING_INPUT' })
+    );
+    expect(() => priceCostAdders([costAdder({ id: 'bad', cost_value: Infinity })], quote)).toThrow(
+      expect.objectContaining({ code: 'INVALID_PRICING_INPUT' })
+    );
+  });
+});
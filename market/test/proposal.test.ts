@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { priceCostAdders } from '../src/pricing';
+import { buildProposal, renderProposalHtml, renderProposalText } from '../src/proposal';
+import { costAdder } from './fixtures';
+
+const pricing = priceCostAdders(
+  [
+    costAdder({ id: 'permit', display_name: 'Permit fee', cost_value: 350 }),
+    costAdder({ id: 'overhead', cost_value: 125.5, display_on_proposal: false }),
+    costAdder({ id: 'steep', display_name: 'Steep roof', adder_type: 'per_square', cost_value: 12 }),
+  ],
+  { basePrice: 15000, roofSquares: 30 }
+);
+
+describe('buildProposal', () => {
+  it('itemizes visible adders and rolls hidden ones into the base price', () => {
+    const proposal = buildProposal(pricing);
+
+    expect(proposal.basePrice).toEqual({ label: 'Base price', amountCents: 1512550, formatted: '$15,125.50' });
+    expect(proposal.lineItems).toEqual([
+      { label: 'Permit fee', amountCents: 35000, formatted: '$350.00', adderId: 'permit' },
+      { label: 'Steep roof', amountCents: 36000, formatted: '$360.00', adderId: 'steep' },
+    ]);
+    expect(proposal.total).toEqual({ label: 'Total', amountCents: 1583550, formatted: '$15,835.50' });
+    expect(proposal.total.amountCents).toBe(pricing.totalCents);
+    expect(proposal.hiddenAdderIds).toEqual(['overhead']);
+  });
+
+  it('uses the given locale, currency and labels', () => {
+    const proposal = buildProposal(pricing, {
+      locale: 'de-DE',
+      currency: 'EUR',
+      basePriceLabel: 'Grundpreis',
+      totalLabel: 'Summe',
+    });
+
+    expect(proposal).toMatchObject({ locale: 'de-DE', currency: 'EUR' });
+    expect(proposal.basePrice.label).toBe('Grundpreis');
+    expect(proposal.total.label).toBe('Summe');
+    expect(proposal.total.formatted).toBe(new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(15835.5));
+  });
+
+  it('rounds each line to whole units in a currency without minor digits and totals the rounded lines', () => {
+    const yen = priceCostAdders(
+      [
+        costAdder({ id: 'a', cost_value: 0.4 }),
+        costAdder({ id: 'b', cost_value: 0.4 }),
+        costAdder({ id: 'c', cost_value: 0.5 }),
+      ],
+      { basePrice: 1000.4, roofSquares: 0 }
+    );
+    const proposal = buildProposal(yen, { currency: 'JPY' });
+
+    expect(proposal.basePrice).toMatchObject({ amountCents: 100000, formatted: '¥1,000' });
+    expect(proposal.lineItems.map((line) => line.amountCents)).toEqual([0, 0, 100]);
+    expect(proposal.total).toMatchObject({ amountCents: 100100, formatted: '¥1,001' });
+    expect(yen.totalCents).toBe(100170);
+  });
+
+  it('keeps cents in a two-digit currency', () => {
+    const proposal = buildProposal(priceCostAdders([], { basePrice: 1000.4, roofSquares: 0 }), { currency: 'USD' });
+
+    expect(proposal.total).toMatchObject({ amountCents: 100040, formatted: '$1,000.40' });
+  });
+});
+
+describe('renderProposalText', () => {
+  it('aligns labels and amounts with the total under a rule', () => {
+    expect(renderProposalText(buildProposal(pricing))).toBe(
+      [
+        'Base price  $15,125.50',
+        'Permit fee     $350.00',
+        'Steep roof     $360.00',
+        '----------------------',
+        'Total       $15,835.50',
+      ].join('\n')
+    );
+  });
+});
+
+describe('renderProposalHtml', () => {
+  it('renders a table with the total in the footer', () => {
+    const html = renderProposalHtml(buildProposal(pricing));
+
+    expect(html).toContain('<table class="proposal" lang="en-US">');
+    expect(html).toContain(
+      '<tr data-adder-id="permit"><th scope="row">Permit fee</th><td class="amount">$350.00</td></tr>'
+    );
+    expect(html).toMatch(/<tfoot>\n<tr><th scope="row">Total<\/th><td class="amount">\$15,835\.50<\/td><\/tr>\n<\/tfoot>/);
+  });
+
+  it('escapes labels and adder ids', () => {
+    const risky = priceCostAdders(
+      [costAdder({ id: 'a"b', display_name: '<script>alert("x")</script> & co', cost_value: 1 })],
+      { basePrice: 100, roofSquares: 0 }
+    );
+    const html = renderProposalHtml(buildProposal(risky));
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('data-adder-id="a&quot;b"');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; co');
+  });
+});
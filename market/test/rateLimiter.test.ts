@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../src/rateLimiter';
+import { createTestClient } from '../src/testing';
+
+/** Start acquiring a slot and track when it is granted */
+function request(limiter: RateLimiter, signal?: AbortSignal) {
+  const state: { release?: () => void; error?: unknown } = {};
+  const promise = limiter.acquire(signal).then(
+    (release) => {
+      state.release = release;
+    },
+    (error) => {
+      state.error = error;
+    }
+  );
+  return Object.assign(state, { promise });
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends a burst at once, then paces calls at requestsPerSecond', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2 });
+    const calls = [1, 2, 3, 4].map(() => request(limiter));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map((call) => !!call.release)).toEqual([true, true, false, false]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(calls.map((call) => !!call.release)).toEqual([true, true, true, false]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(calls.every((call) => call.release)).toBe(true);
+  });
+
+  it('caps concurrent calls and queues the rest in order', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const calls = [1, 2, 3].map(() => request(limiter));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.stats()).toMatchObject({ active: 2, queued: 1 });
+
+    calls[1].release!();
+    // Releasing twice frees only one slot
+    calls[1].release!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls[2].release).toBeDefined();
+    expect(limiter.stats()).toMatchObject({ active: 2, queued: 0 });
+  });
+
+  it('removes aborted calls from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    const first = request(limiter);
+    const aborted = request(limiter, controller.signal);
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(first.release).toBeDefined();
+    expect(aborted.error).toMatchObject({ code: 'ABORTED' });
+    expect(limiter.stats().queued).toBe(0);
+  });
+
+  it('holds every call while paused', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100 });
+    limiter.pause(1000);
+    const call = request(limiter);
+
+    expect(limiter.stats().pausedUntil).toEqual(new Date(Date.now() + 1000));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(call.release).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(20);
+    expect(call.release).toBeDefined();
+    expect(limiter.stats().pausedUntil).toBeNull();
+  });
+});
+
+describe('client rate limiting', () => {
+  it('pauses the queue for the Retry-After of a 429', async () => {
+    const client = createTestClient({
+      rateLimit: { requestsPerSecond: 50 },
+      seed: { markets: [{ id: 'denver' }] },
+    });
+    client.failNext('RATE_LIMITED', { retryAfter: 2 });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+
+    const pausedUntil = client.getRateLimiterStats()?.pausedUntil;
+    expect(pausedUntil).toBeInstanceOf(Date);
+    expect(pausedUntil!.getTime() - Date.now()).toBeGreaterThan(1500);
+  });
+
+  it('is off unless configured', () => {
+    expect(createTestClient().getRateLimiterStats()).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { FileCassetteStore } from '../src/node';
+import { createTestClient } from '../src/testing';
+import { CassetteInteraction, CassetteStore, MarketServiceConfig, RecordingOptions, Transport } from '../src/types';
+
+/** Cassette store that keeps cassettes in a map */
+function memoryStore(): CassetteStore & { cassettes: Map<string, CassetteInteraction[]> } {
+  const cassettes = new Map<string, CassetteInteraction[]>();
+  return {
+    cassettes,
+    load: (name) => cassettes.get(name),
+    save: (name, interactions) => void cassettes.set(name, interactions),
+  };
+}
+
+const offline: Transport = async () => {
+  throw new Error('The network must not be used during replay');
+};
+
+function replayClient(recording: Omit<RecordingOptions, 'mode'>, config: Partial<MarketServiceConfig> = {}) {
+  return new MarketServiceClient({
+    baseURL: 'http://market-service.test',
+    apiKey: 'mk_test_key',
+    transport: offline,
+    ...config,
+    recording: { mode: 'replay', ...recording },
+  });
+}
+
+async function recordDenver(store: CassetteStore, redactHeaders?: string[]) {
+  const client = createTestClient({
+    jwtToken: 'user-jwt',
+    seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] },
+    middleware: [{ onRequest: (request) => ({ ...request, headers: { ...request.headers, 'X-Tenant-Secret': 's3cret' } }) }],
+    recording: { mode: 'record', cassette: 'denver', store, redactHeaders },
+  });
+  await client.getMarketById('denver');
+  await client.getMarkets({ brand_id: 1 });
+  return client;
+}
+
+describe('record/replay', () => {
+  it('records every interaction with credentials redacted', async () => {
+    const store = memoryStore();
+    await recordDenver(store, ['X-Tenant-Secret']);
+
+    const interactions = store.cassettes.get('denver')!;
+    expect(interactions.map((interaction) => `${interaction.request.method} ${interaction.request.path}`)).toEqual([
+      'GET /api/markets/denver',
+      'GET /api/markets',
+    ]);
+    expect(interactions[0].request.headers).toMatchObject({
+      'X-API-Key': '[REDACTED]',
+      Authorization: '[REDACTED]',
+      'X-Tenant-Secret': '[REDACTED]',
+    });
+    expect(JSON.stringify(interactions)).not.toMatch(/user-jwt|s3cret|mk_test_/);
+  });
+
+  it('replays recorded responses without the network', async () => {
+    const store = memoryStore();
+    await recordDenver(store);
+    const client = replayClient({ cassette: 'denver', store });
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ name: 'Denver Metro' });
+    await expect(client.getMarkets({ brand_id: 1 })).resolves.toHaveLength(1);
+  });
+
+  it('fails unmatched requests in strict mode', async () => {
+    const store = memoryStore();
+    await recordDenver(store);
+    const client = replayClient({ cassette: 'denver', store });
+
+    await expect(client.getMarkets({ brand_id: 2 })).rejects.toMatchObject({
+      code: 'UNMATCHED_REQUEST',
+      message: expect.stringContaining('GET /api/markets'),
+    });
+  });
+
+  it('sends unmatched requests on when strict is off', async () => {
+    const fallback = createTestClient({ seed: { markets: [{ id: 'boulder', name: 'Boulder' }] } });
+    const client = replayClient(
+      { cassette: 'missing', store: memoryStore(), strict: false },
+      { transport: fallback.service.handle }
+    );
+
+    await expect(client.getMarketById('boulder')).resolves.toMatchObject({ name: 'Boulder' });
+  });
+
+  it('replays identical requests in recorded order, then repeats the last one', async () => {
+    const store = memoryStore();
+    const recorder = createTestClient({
+      seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] },
+      recording: { mode: 'record', cassette: 'renamed', store },
+    });
+    await recorder.getMarketById('denver');
+    await recorder.updateMarket('denver', { name: 'Denver Metro Area' });
+    await recorder.getMarketById('denver');
+    const client = replayClient({ cassette: 'renamed', store });
+
+    const names: string[] = [];
+    for (let i = 0; i < 3; i++) names.push((await client.getMarketById('denver')).name);
+
+    expect(names).toEqual(['Denver Metro', 'Denver Metro Area', 'Denver Metro Area']);
+  });
+
+  it('replays version headers', async () => {
+    const store = memoryStore();
+    store.cassettes.set('outdated', [
+      {
+        request: { operation: 'getMarketById', method: 'GET', path: '/api/markets/denver', headers: {} },
+        response: {
+          status: 200,
+          headers: { 'x-sdk-status': 'outdated', 'x-sdk-latest': '9.0.0', 'x-sdk-minimum': '1.0.0' },
+          body: { status: 'success', data: { id: 'denver', name: 'Denver Metro' } },
+        },
+        recordedAt: '2025-01-01T00:00:00.000Z',
+      },
+    ]);
+    const client = replayClient({ cassette: 'outdated', store });
+
+    await client.getMarketById('denver');
+
+    expect(client.getVersionStatus()).toMatchObject({ status: 'outdated', latest: '9.0.0' });
+  });
+});
+
+describe('FileCassetteStore', () => {
+  it('round-trips cassettes as JSON files', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'cassettes-'));
+    const store = new FileCassetteStore(directory);
+    try {
+      await recordDenver(store);
+
+      expect(await fs.readdir(directory)).toEqual(['denver.json']);
+      await expect(replayClient({ cassette: 'denver', store }).getMarketById('denver')).resolves.toMatchObject({
+        name: 'Denver Metro',
+      });
+      expect(await store.load('never recorded')).toBeUndefined();
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
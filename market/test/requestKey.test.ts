@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { buildRequestKey, credentialDigest, stableStringify } from '../src/requestKey';
+
+const nodeSha256 = (value: string) => createHash('sha256').update(value, 'utf8').digest('hex');
+
+describe('credentialDigest', () => {
+  it('matches known SHA-256 answers', () => {
+    expect(credentialDigest('mk_live_abc')).toBe('2896c015f16cf6811faab6b38c89c430a6c3151813d2ad0159048b90de68a7bf');
+    // Two blocks
+    expect(credentialDigest('mk_live_abc', `eyJhbGciOiJIUzI1NiJ9.${'a'.repeat(100)}`)).toBe(
+      'a5df3ccde4d6ef637e1d06b632dcf4a273ee365c6c8c053fc01b3b81e01f7c66'
+    );
+    // Multi-byte UTF-8, including a character outside the BMP
+    expect(credentialDigest('clé', 'jeton-été-🌞')).toBe(
+      '5eacd9db2f4d49fc3d8cee6dd95492a2e90015e5480ed6ba75ecbd4d41507227'
+    );
+  });
+
+  it('agrees with Node crypto on every length around the block boundaries', () => {
+    for (let length = 0; length <= 200; length++) {
+      const apiKey = 'k'.repeat(length);
+      expect(credentialDigest(apiKey, 'ü')).toBe(nodeSha256(`${apiKey}:ü`));
+    }
+  });
+
+  it('tells users with the same API key apart by their JWT', () => {
+    expect(credentialDigest('mk_key', 'alice')).not.toBe(credentialDigest('mk_key', 'bob'));
+    expect(credentialDigest('mk_key')).toBe(credentialDigest('mk_key', ''));
+  });
+});
+
+describe('buildRequestKey', () => {
+  it('ignores property order in params and bodies', () => {
+    expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(stableStringify({ a: { c: 3, d: 2 }, b: 1 }));
+    expect(buildRequestKey('get', '/api/markets', { b: 1, a: 2 }, undefined, 'id')).toBe(
+      buildRequestKey('GET', '/api/markets', { a: 2, b: 1 }, undefined, 'id')
+    );
+  });
+
+  it('starts with the URL so keys can be invalidated by path prefix', () => {
+    expect(buildRequestKey('GET', '/api/counties/08001', undefined, undefined, 'id').startsWith('/api/counties')).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, resolveRetryPolicy } from '../src/retry';
+import { FakeMarketServiceClientOptions, MarketServiceError, RateLimitError } from '../src/types';
+
+const fastRetry = { baseDelayMs: 1, jitter: 'none' as const };
+
+function clientWithMarket(options: FakeMarketServiceClientOptions) {
+  return createTestClient({ ...options, seed: { markets: [{ id: 'denver', name: 'Denver Metro' }] } });
+}
+
+describe('retry', () => {
+  it('retries a read that fails with a retryable status until it succeeds', async () => {
+    const client = clientWithMarket({ retry: fastRetry });
+    client.failNext('SERVICE_UNAVAILABLE', { times: 2 });
+
+    const market = await client.getMarketById('denver');
+
+    expect(market.name).toBe('Denver Metro');
+    expect(client.calls).toHaveLength(3);
+  });
+
+  it('retries network errors and timeouts', async () => {
+    const client = clientWithMarket({ retry: fastRetry });
+    client.failNext('NETWORK_ERROR').failNext('TIMEOUT');
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ id: 'denver' });
+    expect(client.calls).toHaveLength(3);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    const client = clientWithMarket({ retry: { ...fastRetry, maxAttempts: 4 } });
+    client.failNext('SERVICE_UNAVAILABLE', { times: Infinity });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.calls).toHaveLength(4);
+  });
+
+  it('does not retry errors outside retryOnStatus', async () => {
+    const client = clientWithMarket({ retry: fastRetry });
+
+    await expect(client.getMarketById('missing')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('does not retry without a retry policy', async () => {
+    const client = clientWithMarket({});
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.getMarketById('denver')).rejects.toBeInstanceOf(MarketServiceError);
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('never retries updates', async () => {
+    const client = clientWithMarket({ retry: fastRetry });
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.updateMarket('denver', { name: 'Denver' })).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('throws at once when Retry-After asks for a longer wait than maxRetryAfterMs', async () => {
+    const client = clientWithMarket({ retry: { ...fastRetry, maxRetryAfterMs: 1000 } });
+    client.failNext('RATE_LIMITED', { retryAfter: 5 });
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfter: 5 });
+    expect(client.calls).toHaveLength(1);
+  });
+
+  it('honors per-method overrides', async () => {
+    const client = clientWithMarket({ retry: { ...fastRetry, methods: { getMarketById: false } } });
+    client.failNext('SERVICE_UNAVAILABLE');
+
+    await expect(client.getMarketById('denver')).rejects.toMatchObject({ statusCode: 503 });
+    expect(client.calls).toHaveLength(1);
+    expect(resolveRetryPolicy({ methods: { getPermitHistory: { maxAttempts: 6 } } }, 'getPermitHistory'))
+      .toMatchObject({ maxAttempts: 6, baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs });
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: 'none' as const };
+  const error = new MarketServiceError('Unavailable', 'SERVICE_UNAVAILABLE', 503);
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => computeRetryDelay(attempt, error, policy))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+
+  it('keeps jittered delays within the backoff', () => {
+    for (let i = 0; i < 50; i++) {
+      const full = computeRetryDelay(3, error, { ...policy, jitter: 'full' }) as number;
+      const equal = computeRetryDelay(3, error, { ...policy, jitter: 'equal' }) as number;
+      expect(full).toBeGreaterThanOrEqual(0);
+      expect(full).toBeLessThanOrEqual(400);
+      expect(equal).toBeGreaterThanOrEqual(200);
+      expect(equal).toBeLessThanOrEqual(400);
+    }
+  });
+
+  it('waits for Retry-After instead of backing off', () => {
+    expect(computeRetryDelay(1, new RateLimitError('Slow down', 2), policy)).toBe(2000);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createTestClient } from '../src/testing';
+import { TenantMismatchError } from '../src/types';
+
+function tenantClients() {
+  const client = createTestClient({
+    seed: {
+      markets: [
+        { id: 'acme-denver', name: 'Acme Denver', brand_id: 1, client_id: 42, market_type: 'state', state_code: 'CO' },
+        { id: 'rival-denver', name: 'Rival Denver', brand_id: 2, client_id: 7, market_type: 'state', state_code: 'CO' },
+      ],
+      costAdders: [
+        { id: 'acme-permit', market_id: 'acme-denver', adder_name: 'Permit', adder_type: 'fixed', cost_value: 350 },
+        { id: 'rival-permit', market_id: 'rival-denver', adder_name: 'Permit', adder_type: 'fixed', cost_value: 400 },
+      ],
+    },
+  });
+  return { client, acme: client.forTenant({ brandId: 1, clientId: 42 }) };
+}
+
+describe('tenant-scoped clients', () => {
+  it("injects the tenant's IDs and only returns its markets", async () => {
+    const { client, acme } = tenantClients();
+
+    const markets = await acme.getMarkets();
+
+    expect(markets.map((market) => market.id)).toEqual(['acme-denver']);
+    expect(client.calls[0].params).toMatchObject({ brand_id: 1, client_id: 42 });
+  });
+
+  it("rejects other tenants' markets with TenantMismatchError", async () => {
+    const { acme } = tenantClients();
+
+    const error = await acme.getMarketById('rival-denver').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TenantMismatchError);
+    expect(error).toMatchObject({ code: 'TENANT_MISMATCH', tenant: { brandId: 1, clientId: 42 } });
+    await expect(acme.getMarketById('acme-denver')).resolves.toMatchObject({ name: 'Acme Denver' });
+  });
+
+  it("checks ownership before changing another tenant's data", async () => {
+    const { client, acme } = tenantClients();
+
+    await expect(acme.updateMarket('rival-denver', { name: 'Taken over' })).rejects.toBeInstanceOf(TenantMismatchError);
+    await expect(acme.deleteMarket('rival-denver')).rejects.toBeInstanceOf(TenantMismatchError);
+    await expect(
+      acme.createCostAdder('rival-denver', { adder_name: 'Fee', adder_type: 'fixed', cost_value: 1 })
+    ).rejects.toBeInstanceOf(TenantMismatchError);
+    await expect(acme.updateCostAdder('acme-denver', 'rival-permit', { cost_value: 0 })).rejects.toBeInstanceOf(
+      TenantMismatchError
+    );
+
+    expect(client.calls.every((call) => call.method === 'GET')).toBe(true);
+    expect((await client.getMarketById('rival-denver')).name).toBe('Rival Denver');
+  });
+
+  it('refuses to create markets for another tenant', async () => {
+    const { client, acme } = tenantClients();
+
+    await expect(acme.createMarket({ name: 'Elsewhere', market_type: 'metro', brand_id: 2 })).rejects.toBeInstanceOf(
+      TenantMismatchError
+    );
+    const created = await acme.createMarket({ name: 'Acme Boulder', market_type: 'metro' });
+
+    expect(created).toMatchObject({ brand_id: 1, client_id: 42 });
+    expect(client.calls.filter((call) => call.method === 'POST')).toHaveLength(1);
+  });
+
+  it("scopes lookups to the tenant's brand", async () => {
+    const { client, acme } = tenantClients();
+
+    const result = await acme.findMarketByState('CO');
+
+    expect(result.market?.id).toBe('acme-denver');
+    expect(client.calls[0].body).toMatchObject({ brand_id: 1, state_code: 'CO' });
+  });
+
+  it("shares the parent client's credentials", async () => {
+    const { client, acme } = tenantClients();
+
+    client.setJwtToken('shared-jwt');
+    await acme.getMarkets();
+
+    expect(client.calls[0].headers['Authorization']).toBe('Bearer shared-jwt');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { buildCostAdderTimeline, isCostAdderApplicable, isInEffect } from '../src/costAdders';
+import { hydrateDates } from '../src/dates';
+import { createTestClient } from '../src/testing';
+import { costAdder } from './fixtures';
+
+const permit = costAdder({ id: 'permit' });
+const spring = costAdder({ id: 'spring', effective_date: '2025-03-01', expiration_date: '2025-05-31' });
+const summer = costAdder({ id: 'summer', effective_date: '2025-06-01' });
+
+const periods = (adders = [permit, spring, summer], to: Date | string = '2025-12-31') =>
+  buildCostAdderTimeline(adders, { from: '2025-01-01', to }).map((period) => ({
+    from: period.from.toISOString(),
+    to: period.to.toISOString(),
+    ids: period.costAdders.map((adder) => adder.id),
+  }));
+
+describe('isInEffect', () => {
+  it('includes both the effective and the whole expiration day', () => {
+    expect(isInEffect(spring, new Date('2025-02-28T23:59:59.999Z'))).toBe(false);
+    expect(isInEffect(spring, new Date('2025-03-01T00:00:00Z'))).toBe(true);
+    expect(isInEffect(spring, new Date('2025-05-31T23:59:59.999Z'))).toBe(true);
+    expect(isInEffect(spring, new Date('2025-06-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('gives the same answer for hydrated dates', () => {
+    const hydrated = hydrateDates(spring);
+
+    expect(isInEffect(hydrated, new Date('2025-05-31T18:00:00Z'))).toBe(true);
+    expect(isInEffect(hydrated, new Date('2025-06-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('treats an expiration that is not midnight as an instant', () => {
+    const flash = costAdder({ id: 'flash', expiration_date: '2025-05-31T12:00:00.000Z' });
+
+    expect(isInEffect(flash, new Date('2025-05-31T12:00:00.000Z'))).toBe(true);
+    expect(isInEffect(flash, new Date('2025-05-31T12:00:00.001Z'))).toBe(false);
+  });
+
+  it('is combined with status, quote type and county in isCostAdderApplicable', () => {
+    const asOf = new Date('2025-04-01');
+
+    expect(isCostAdderApplicable(spring, { asOf })).toBe(true);
+    expect(isCostAdderApplicable({ ...spring, active: false }, { asOf })).toBe(false);
+    expect(isCostAdderApplicable({ ...spring, applies_to_lom: false }, { asOf, quoteType: 'lom' })).toBe(false);
+    expect(isCostAdderApplicable({ ...spring, county_fips: '08001' }, { asOf, countyFips: '08031' })).toBe(false);
+  });
+});
+
+describe('buildCostAdderTimeline', () => {
+  it('starts a period wherever an adder takes effect or expires', () => {
+    expect(periods()).toEqual([
+      { from: '2025-01-01T00:00:00.000Z', to: '2025-02-28T23:59:59.999Z', ids: ['permit'] },
+      { from: '2025-03-01T00:00:00.000Z', to: '2025-05-31T23:59:59.999Z', ids: ['permit', 'spring'] },
+      { from: '2025-06-01T00:00:00.000Z', to: '2025-12-31T23:59:59.999Z', ids: ['permit', 'summer'] },
+    ]);
+  });
+
+  it('merges neighbouring periods with the same adders', () => {
+    const renewed = costAdder({ id: 'spring', effective_date: '2025-06-01' });
+
+    expect(periods([permit, spring, renewed]).map((period) => period.ids)).toEqual([['permit'], ['permit', 'spring']]);
+  });
+
+  it('covers the whole last day when `to` is a calendar date, hydrated or not', () => {
+    const lastDay = costAdder({ id: 'new-year-eve', effective_date: '2025-12-31' });
+    const expected = [
+      { from: '2025-01-01T00:00:00.000Z', to: '2025-12-30T23:59:59.999Z', ids: ['permit'] },
+      { from: '2025-12-31T00:00:00.000Z', to: '2025-12-31T23:59:59.999Z', ids: ['permit', 'new-year-eve'] },
+    ];
+
+    expect(periods([permit, lastDay], '2025-12-31')).toEqual(expected);
+    expect(periods([permit, lastDay], new Date(Date.UTC(2025, 11, 31)))).toEqual(expected);
+  });
+
+  it('uses a `to` that is not midnight as given', () => {
+    expect(periods([permit], '2025-12-31T12:00:00Z')).toEqual([
+      { from: '2025-01-01T00:00:00.000Z', to: '2025-12-31T12:00:00.000Z', ids: ['permit'] },
+    ]);
+  });
+
+  it('rejects a range that starts after it ends', () => {
+    expect(() => buildCostAdderTimeline([permit], { from: '2026-01-01', to: '2025-12-31' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_DATE_RANGE' })
+    );
+    expect(buildCostAdderTimeline([permit], { from: '2025-12-31', to: '2025-12-31' })).toHaveLength(1);
+  });
+});
+
+describe('point-in-time client methods', () => {
+  const client = () =>
+    createTestClient({
+      seed: {
+        markets: [{ id: 'denver', name: 'Denver Metro' }],
+        costAdders: [permit, spring, summer],
+      },
+    });
+
+  it('filters cost adders by asOf', async () => {
+    const adders = await client().getActiveCostAdders('denver', { asOf: '2025-04-15' });
+
+    expect(adders.map((adder) => adder.id).sort()).toEqual(['permit', 'spring']);
+  });
+
+  it('rejects an unparseable asOf', async () => {
+    await expect(client().getActiveCostAdders('denver', { asOf: 'soon' })).rejects.toMatchObject({
+      code: 'INVALID_PRICING_INPUT',
+    });
+  });
+
+  it('builds the timeline from the market cost adders', async () => {
+    const timeline = await client().getCostAdderTimeline('denver', { from: '2025-01-01', to: '2025-12-31' });
+
+    expect(timeline).toHaveLength(3);
+    expect(timeline[2].to.toISOString()).toBe('2025-12-31T23:59:59.999Z');
+  });
+});
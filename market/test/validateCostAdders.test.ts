@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { validateCostAdders } from '../src/costAdders';
+import { CostAdderIssueCode } from '../src/types';
+import { costAdder } from './fixtures';
+
+function codes(report: ReturnType<typeof validateCostAdders>): CostAdderIssueCode[] {
+  return report.issues.map((issue) => issue.code);
+}
+
+describe('validateCostAdders', () => {
+  it('accepts distinct adders', () => {
+    const report = validateCostAdders([
+      costAdder({ id: 'permit', adder_name: 'Permit Fee', cost_value: 350 }),
+      costAdder({ id: 'steep', adder_name: 'Steep Roof', adder_type: 'per_square', cost_value: 12.35 }),
+    ]);
+
+    expect(report).toEqual({ valid: true, issues: [] });
+  });
+
+  it('reports duplicates, matching names regardless of case and spacing', () => {
+    const report = validateCostAdders([
+      costAdder({ id: 'a', adder_name: 'Permit Fee', cost_value: 350 }),
+      costAdder({ id: 'b', adder_name: ' permit  fee', cost_value: 400 }),
+    ]);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: 'DUPLICATE_ADDER', severity: 'error', adderIds: ['a', 'b'] }),
+    ]);
+  });
+
+  it('reports overlapping dates but not back-to-back ones', () => {
+    const overlapping = validateCostAdders([
+      costAdder({ id: 'a', adder_name: 'Permit', effective_date: '2025-01-01', expiration_date: '2025-03-01' }),
+      costAdder({ id: 'b', adder_name: 'Permit', effective_date: '2025-03-01' }),
+    ]);
+    const backToBack = validateCostAdders([
+      costAdder({ id: 'a', adder_name: 'Permit', effective_date: '2025-01-01', expiration_date: '2025-02-28' }),
+      costAdder({ id: 'b', adder_name: 'Permit', effective_date: '2025-03-01' }),
+    ]);
+
+    expect(codes(overlapping)).toEqual(['OVERLAPPING_DATES']);
+    expect(backToBack.valid).toBe(true);
+  });
+
+  it('ignores inactive adders and adders for different quote types', () => {
+    const report = validateCostAdders([
+      costAdder({ id: 'a', adder_name: 'Permit' }),
+      costAdder({ id: 'b', adder_name: 'Permit', active: false }),
+      costAdder({ id: 'retail', adder_name: 'Delivery', applies_to_lom: false }),
+      costAdder({ id: 'lom', adder_name: 'Delivery', applies_to_retail: false }),
+    ]);
+
+    expect(report.issues).toEqual([]);
+  });
+
+  it('reports county adders that stack on a market-wide one', () => {
+    const report = validateCostAdders([
+      costAdder({ id: 'market', adder_name: 'Permit' }),
+      costAdder({ id: 'county', adder_name: 'Permit', county_fips: '08031' }),
+      costAdder({ id: 'other-county', adder_name: 'Permit', county_fips: '08013' }),
+    ]);
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: 'COUNTY_SHADOWS_MARKET', adderIds: ['county', 'market'] }),
+      expect.objectContaining({ code: 'COUNTY_SHADOWS_MARKET', adderIds: ['other-county', 'market'] }),
+    ]);
+  });
+
+  it('reports values out of range, as errors only for percentages over 100', () => {
+    const report = validateCostAdders(
+      [
+        costAdder({ id: 'discount', cost_value: -50 }),
+        costAdder({ id: 'pct', adder_type: 'percentage', cost_value: 150 }),
+        costAdder({ id: 'fixed', cost_value: 6000 }),
+        costAdder({ id: 'square', adder_type: 'per_square', cost_value: 80 }),
+      ],
+      { limits: { maxFixed: 5000, maxPerSquare: 50 } }
+    );
+
+    expect(report.issues.map((issue) => [issue.code, issue.severity, issue.adderIds[0]])).toEqual([
+      ['NEGATIVE_VALUE', 'warning', 'discount'],
+      ['VALUE_OUT_OF_RANGE', 'error', 'pct'],
+      ['VALUE_OUT_OF_RANGE', 'warning', 'fixed'],
+      ['VALUE_OUT_OF_RANGE', 'warning', 'square'],
+    ]);
+    expect(report.valid).toBe(false);
+  });
+
+  it('stays valid with warnings only', () => {
+    const report = validateCostAdders([costAdder({ id: 'discount', cost_value: -50 })]);
+
+    expect(report.valid).toBe(true);
+    expect(codes(report)).toEqual(['NEGATIVE_VALUE']);
+  });
+
+  it('reports adders that expire before they take effect', () => {
+    const report = validateCostAdders([
+      costAdder({ id: 'a', effective_date: '2025-03-02', expiration_date: '2025-03-01' }),
+      // A single-day adder is fine
+      costAdder({ id: 'b', adder_name: 'One day', effective_date: '2025-03-01', expiration_date: '2025-03-01' }),
+    ]);
+
+    expect(codes(report)).toEqual(['INVERTED_DATES']);
+  });
+
+  it('reports county adders outside the serviceable counties', () => {
+    const report = validateCostAdders(
+      [
+        costAdder({ id: 'a', county_fips: '08031' }),
+        costAdder({ id: 'b', adder_name: 'Other', county_fips: '08013' }),
+      ],
+      { serviceableCounties: [{ county_fips: '08031', county_name: 'Denver', state_code: 'CO' }] }
+    );
+
+    expect(report.issues).toEqual([expect.objectContaining({ code: 'COUNTY_NOT_SERVICEABLE', adderIds: ['b'] })]);
+  });
+});
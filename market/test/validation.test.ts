@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { validateResponseData } from '../src/schemas';
+import { createTestClient } from '../src/testing';
+import { MarketServiceConfig, ResponseValidationError, ResponseValidationReport } from '../src/types';
+
+const market = {
+  id: 'denver',
+  name: 'Denver Metro',
+  market_type: 'metro',
+  brand_id: 1,
+  client_id: 1,
+  active: true,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+};
+
+/** Client whose every request gets `data` back in a success envelope */
+function clientReturning(data: unknown, config: Partial<MarketServiceConfig> = {}) {
+  return new MarketServiceClient({
+    baseURL: 'http://market-service.test',
+    apiKey: 'mk_test_key',
+    ...config,
+    transport: async () => ({ status: 200, headers: {}, body: { status: 'success', data } }),
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('validateResponseData', () => {
+  it('accepts data matching the SDK types', () => {
+    expect(validateResponseData('getMarketById', market)).toEqual([]);
+    expect(validateResponseData('getMarkets', [market, { ...market, id: 'boulder', legacy_id: null }])).toEqual([]);
+  });
+
+  it('reports each mismatch with its path', () => {
+    const issues = validateResponseData('getMarkets', [market, { ...market, brand_id: '1', market_type: 'region' }]);
+
+    expect(issues).toEqual([
+      { path: 'data[1].market_type', expected: "'state' | 'metro' | 'custom'", received: 'string' },
+      { path: 'data[1].brand_id', expected: 'number', received: 'string' },
+    ]);
+  });
+
+  it('rejects unparseable dates and NaN', () => {
+    expect(validateResponseData('getMarketById', { ...market, created_at: 'yesterday', brand_id: NaN })).toEqual([
+      { path: 'data.brand_id', expected: 'number', received: 'NaN' },
+      { path: 'data.created_at', expected: 'Date or ISO date string', received: 'string' },
+    ]);
+  });
+
+  it('skips methods without a schema and missing data', () => {
+    expect(validateResponseData('healthCheck', { anything: true })).toEqual([]);
+    expect(validateResponseData('getMarketById', null)).toEqual([]);
+  });
+});
+
+describe('response validation', () => {
+  it('is off by default', async () => {
+    const client = clientReturning({ ...market, brand_id: '1' });
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ brand_id: '1' });
+  });
+
+  it('throws ResponseValidationError in strict mode', async () => {
+    const client = clientReturning({ ...market, active: 'yes' }, { validation: 'strict' });
+
+    const error = await client.getMarketById('denver').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.code).toBe('RESPONSE_VALIDATION_FAILED');
+    expect(error.issues).toEqual([{ path: 'data.active', expected: 'boolean', received: 'string' }]);
+    expect(error.message).toContain('data.active: expected boolean, received string');
+  });
+
+  it('returns the response in lenient mode and reports the issues', async () => {
+    const reports: ResponseValidationReport[] = [];
+    const client = clientReturning(
+      { ...market, active: 'yes' },
+      { validation: 'lenient', onValidationIssue: (report) => reports.push(report) }
+    );
+
+    await expect(client.getMarketById('denver')).resolves.toMatchObject({ active: 'yes' });
+    expect(reports).toEqual([
+      {
+        operation: 'getMarketById',
+        method: 'GET',
+        path: '/api/markets/denver',
+        issues: [{ path: 'data.active', expected: 'boolean', received: 'string' }],
+      },
+    ]);
+  });
+
+  it('warns in lenient mode without a callback', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = clientReturning({ ...market, active: 'yes' }, { validation: 'lenient' });
+
+    await client.getMarketById('denver');
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[MarketServiceSDK] Warning: Unexpected response'));
+  });
+
+  it('passes everything the in-memory fake returns', async () => {
+    const client = createTestClient({
+      validation: 'strict',
+      seed: {
+        markets: [{ id: 'denver', name: 'Denver Metro' }],
+        costAdders: [{ market_id: 'denver', adder_name: 'Permit', adder_type: 'fixed', cost_value: 350 }],
+        counties: [{ county_fips: '08031', county_name: 'Denver', state_code: 'CO' }],
+      },
+    });
+
+    await expect(client.getMarkets()).resolves.toHaveLength(1);
+    await expect(client.getCostAdders('denver')).resolves.toHaveLength(1);
+    await expect(client.getCountyByFips('08031')).resolves.toMatchObject({ county_name: 'Denver' });
+  });
+});
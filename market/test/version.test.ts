@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import pkg from '../package.json';
+import { MarketServiceClient } from '../src/MarketServiceClient';
+import { MarketServiceConfig, SDKUnsupportedError, SDKVersionStatus } from '../src/types';
+import { compareVersions, SDK_NAME, SDK_VERSION } from '../src/version';
+
+/** Client whose responses carry whatever version headers the test sets */
+function clientWithHeaders(config: Partial<MarketServiceConfig> = {}) {
+  const versionHeaders: Record<string, string> = {};
+  const requests: Record<string, string>[] = [];
+  const client = new MarketServiceClient({
+    baseURL: 'http://market-service.test',
+    apiKey: 'mk_test_key',
+    ...config,
+    transport: async (request) => {
+      requests.push(request.headers);
+      return { status: 200, headers: { ...versionHeaders }, body: { status: 'success', data: [] } };
+    },
+  });
+  return { client, versionHeaders, requests };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('compareVersions', () => {
+  it('orders releases numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.9')).toBe(1);
+    expect(compareVersions('1.2.0', '1.2.0')).toBe(0);
+    expect(compareVersions('v1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('1.2.0', '2.0.0')).toBe(-1);
+  });
+
+  it('follows semver precedence for prereleases', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+    ];
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareVersions(ordered[i - 1], ordered[i])).toBe(-1);
+      expect(compareVersions(ordered[i], ordered[i - 1])).toBe(1);
+    }
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.2.0+build.5', '1.2.0')).toBe(0);
+    expect(compareVersions('1.2.0-rc.1+build.5', '1.2.0-rc.1')).toBe(0);
+  });
+});
+
+describe('SDK identity', () => {
+  it('matches package.json and is sent with every request', async () => {
+    const { client, requests } = clientWithHeaders();
+
+    await client.getMarkets();
+
+    expect({ SDK_NAME, SDK_VERSION }).toEqual({ SDK_NAME: pkg.name, SDK_VERSION: pkg.version });
+    expect(requests[0]).toMatchObject({ 'X-SDK-Name': pkg.name, 'X-SDK-Version': pkg.version });
+  });
+});
+
+describe('version policy', () => {
+  it('treats a version below X-SDK-Minimum as unsupported', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { client, versionHeaders } = clientWithHeaders();
+    Object.assign(versionHeaders, { 'x-sdk-minimum': '999.0.0', 'x-sdk-latest': '999.1.0' });
+
+    await client.getMarkets();
+
+    expect(client.getVersionStatus()).toMatchObject({
+      status: 'unsupported',
+      updateRequired: true,
+      updateAvailable: true,
+    });
+  });
+
+  it('only warns by default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { client, versionHeaders } = clientWithHeaders();
+    versionHeaders['x-sdk-status'] = 'unsupported';
+
+    await client.getMarkets();
+    await client.getMarkets();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('[MarketServiceSDK] Warning:');
+  });
+
+  it('blocks calls once the service reports the version unsupported', async () => {
+    const { client, versionHeaders, requests } = clientWithHeaders({ versionPolicy: 'block-on-unsupported' });
+    versionHeaders['x-sdk-status'] = 'deprecated';
+    await client.getMarkets();
+    await client.getMarkets();
+
+    versionHeaders['x-sdk-status'] = 'unsupported';
+    await client.getMarkets();
+    const error = await client.getMarkets().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SDKUnsupportedError);
+    expect(error.code).toBe('SDK_UNSUPPORTED');
+    expect(error.versionStatus.status).toBe('unsupported');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('can block deprecated versions too', async () => {
+    const { client, versionHeaders } = clientWithHeaders({ versionPolicy: 'block-on-deprecated' });
+    versionHeaders['x-sdk-status'] = 'deprecated';
+
+    await client.getMarkets();
+
+    await expect(client.getMarkets()).rejects.toBeInstanceOf(SDKUnsupportedError);
+  });
+
+  it('checks compatibility even while blocked, and unblocks when the service says so', async () => {
+    const { client, versionHeaders } = clientWithHeaders({ versionPolicy: 'block-on-unsupported' });
+    versionHeaders['x-sdk-status'] = 'unsupported';
+    await client.checkCompatibility();
+    await expect(client.getMarkets()).rejects.toBeInstanceOf(SDKUnsupportedError);
+
+    versionHeaders['x-sdk-status'] = 'current';
+    const status = await client.checkCompatibility();
+
+    expect(status.status).toBe('current');
+    await expect(client.getMarkets()).resolves.toEqual([]);
+  });
+
+  it('notifies version change listeners when the status changes', async () => {
+    const statuses: SDKVersionStatus['status'][] = [];
+    const { client, versionHeaders } = clientWithHeaders({ onVersionChange: (status) => statuses.push(status.status) });
+    versionHeaders['x-sdk-status'] = 'current';
+    await client.getMarkets();
+    await client.getMarkets();
+    versionHeaders['x-sdk-status'] = 'outdated';
+    await client.getMarkets();
+
+    expect(statuses).toEqual(['current', 'outdated']);
+  });
+
+  it('reports unknown when the service sends no version headers', async () => {
+    const { client } = clientWithHeaders();
+
+    expect(await client.checkCompatibility()).toMatchObject({ status: 'unknown', current: SDK_VERSION });
+  });
+});